@@ -0,0 +1,195 @@
+/**
+ * checkpoint.ts
+ * --------------
+ * This file defines **checkpointing** for long-running intents.
+ *
+ * WHY THIS FILE EXISTS:
+ * ----------------------
+ * An intent can make several expensive LLM calls. If the process dies between
+ * steps, re-running the whole intent means paying for every call again.
+ *
+ * With a checkpoint store attached (`runIntent(intent, ctx, { checkpointStore })`),
+ * the engine writes a small snapshot after every successful step:
+ *
+ *    - which steps have completed (in completion order)
+ *    - their outputs (the same values steps see on `ctx.outputs`)
+ *    - the run's `metadata`
+ *    - the step to run next (linear intents)
+ *
+ * `resumeIntent(intent, runId, ctx, { checkpointStore })` loads that snapshot
+ * and continues from where the run stopped. A failed run whose steps were
+ * compensated is marked as such and can't be resumed: its completed steps
+ * have been undone, so skipping them would build on work that is gone.
+ *
+ * SERIALIZATION:
+ * ---------------
+ * Checkpoints are JSON. Values JSON cannot represent faithfully (functions,
+ * symbols, bigints, Maps, Sets) are NOT silently dropped — saving fails with a
+ * CheckpointError and the run fails with it, so a "successful" checkpoint is
+ * always one that can actually be resumed.
+ *
+ * STORES:
+ * --------
+ *    - createMemoryCheckpointStore()     → tests, single-process retries
+ *    - createFileCheckpointStore(dir)    → one JSON file per run on local disk
+ *
+ * Anything else (Redis, Postgres, S3, ...) just implements CheckpointStore.
+ */
+
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { StepId } from "../types";
+import { ReliabilityError } from "../utils/error";
+import type { ErrorCategory } from "../utils/error";
+
+export interface Checkpoint {
+  runId: string;
+  intentName: string;
+  // steps that finished successfully, in the order they finished
+  completedStepIds: StepId[];
+  outputs: Record<StepId, unknown>;
+  // completed steps whose output came from a fallback: step id → fallback id
+  servedBy?: Record<StepId, StepId>;
+  metadata: Record<string, unknown>;
+  // linear intents: the step that runs next (undefined = nothing left)
+  nextStepId?: StepId;
+  // set once a failed run has compensated its completed steps: the outputs
+  // above describe work that was undone, so the run can't be resumed
+  compensated?: {
+    stepIds: StepId[];
+    compensatedAt: number;
+  };
+  // set while the run waits for an awaitApproval step
+  suspended?: {
+    stepId: StepId;
+    token: string;
+    suspendedAt: number;
+  };
+  updatedAt: number;
+}
+
+export interface CheckpointStore {
+  save(checkpoint: Checkpoint): Promise<void>;
+  load(runId: string): Promise<Checkpoint | undefined>;
+  delete(runId: string): Promise<void>;
+}
+
+// "validation" for checkpoints that can't be written or read back as JSON
+// (or don't exist), "provider" when the store itself fails.
+export class CheckpointError extends ReliabilityError {
+  runId: string;
+  constructor(
+    message: string,
+    runId: string,
+    cause?: unknown,
+    category: ErrorCategory = "validation"
+  ) {
+    super(message, category, cause);
+    this.name = "CheckpointError";
+    this.runId = runId;
+  }
+}
+
+export function serializeCheckpoint(checkpoint: Checkpoint): string {
+  try {
+    return JSON.stringify(checkpoint, (key, value) => {
+      if (
+        typeof value === "function" ||
+        typeof value === "symbol" ||
+        typeof value === "bigint"
+      ) {
+        throw new TypeError(`"${key}" holds a ${typeof value}`);
+      }
+
+      if (value instanceof Map || value instanceof Set) {
+        throw new TypeError(`"${key}" holds a ${value.constructor.name}`);
+      }
+
+      return value;
+    });
+  } catch (error) {
+    throw new CheckpointError(
+      `Could not serialize checkpoint for run "${checkpoint.runId}": ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      checkpoint.runId,
+      error
+    );
+  }
+}
+
+export function parseCheckpoint(json: string, runId: string): Checkpoint {
+  try {
+    return JSON.parse(json) as Checkpoint;
+  } catch (error) {
+    throw new CheckpointError(
+      `Checkpoint for run "${runId}" is not valid JSON`,
+      runId,
+      error
+    );
+  }
+}
+
+export function createMemoryCheckpointStore(): CheckpointStore {
+  // stored serialized so values behave exactly as they would on disk
+  const entries = new Map<string, string>();
+
+  return {
+    async save(checkpoint) {
+      entries.set(checkpoint.runId, serializeCheckpoint(checkpoint));
+    },
+    async load(runId) {
+      const json = entries.get(runId);
+      return json === undefined ? undefined : parseCheckpoint(json, runId);
+    },
+    async delete(runId) {
+      entries.delete(runId);
+    },
+  };
+}
+
+export function createFileCheckpointStore(directory: string): CheckpointStore {
+  const pathFor = (runId: string) =>
+    join(directory, `${encodeURIComponent(runId)}.json`);
+
+  return {
+    async save(checkpoint) {
+      const json = serializeCheckpoint(checkpoint);
+      const path = pathFor(checkpoint.runId);
+
+      try {
+        await mkdir(directory, { recursive: true });
+        // write-then-rename so a crash never leaves a half-written checkpoint
+        await writeFile(`${path}.tmp`, json, "utf8");
+        await rename(`${path}.tmp`, path);
+      } catch (error) {
+        throw new CheckpointError(
+          `Could not write checkpoint for run "${checkpoint.runId}" to ${path}`,
+          checkpoint.runId,
+          error,
+          "provider"
+        );
+      }
+    },
+    async load(runId) {
+      let json: string;
+
+      try {
+        json = await readFile(pathFor(runId), "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw new CheckpointError(
+          `Could not read checkpoint for run "${runId}"`,
+          runId,
+          error,
+          "provider"
+        );
+      }
+
+      return parseCheckpoint(json, runId);
+    },
+    async delete(runId) {
+      await rm(pathFor(runId), { force: true });
+    },
+  };
+}
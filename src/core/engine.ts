@@ -58,24 +58,30 @@
  * -----------------------
  * The engine executes:
  *  • Linear step sequences
- *  • Optional fallback routing
- *  • Retry/timeouts around steps
+ *  • Dependency graphs (`dependsOn`) with independent branches run in parallel
+ *  • Ordered fallback chains (`fallbackTo: ["b", "c"]`)
+ *  • Conditional routing (`next` / `route`) chosen from a step's output
+ *  • Retry/timeouts/hedged attempts around steps
+ *  • Streamed step output (`step_chunk` events, idle timeouts, ctx.streams)
+ *  • Shared circuit breakers, bulkheads and rate limiters
+ *  • Intent-level deadlines that bound the whole run
+ *  • Checkpoint after each step + resumeIntent (see checkpoint.ts)
+ *  • Human approval steps that suspend the run (resumeWithApproval)
+ *  • Saga compensation (`compensate`) for completed steps when a run fails
  *  • Telemetry events for observability
  *
  * LATER (FUTURE ROADMAP):
  * ------------------------
  * This file becomes the foundation for:
  *
- * 1. **Full DAG execution**
- *    - Parallel branches
- *    - Dependencies (run B only after A finishes)
+ * 1. **Graph planning**
+ *    - Concurrency limits for wide graphs
  *    - Future "graph planner"
  *
  * 2. **Streaming execution**
- *    - Pipe streaming LLM output into next step
+ *    - Start the next step while the previous one is still streaming
  *
  * 3. **Advanced reliability**
- *    - Circuit breakers
  *    - Retry budget tracking
  *    - Success rate adaptive fallback
  *
@@ -106,29 +112,365 @@ import type {
     Intent,
     ExecutionContext,
     ExecutionResult,
+    RunOptions,
+    StreamOptions,
+    IntentStreamEvent,
     TelemetryEvent,
+    TelemetrySink,
     StepConfig,
     StepId,
+    ApprovalDecision,
+    SuspendedRun,
+    ExecutionStatus,
+    CompensationRecord,
   } from "../types";
-  import {  runWithRetry, runWithTimeout } from "./policies";
+  import {
+    CancelledError,
+    DeadlineExceededError,
+    RetryExhaustedError,
+    readStream,
+    runWithHedge,
+    runWithRetry,
+    runWithTimeout,
+    systemClock,
+  } from "./policies";
+  import type { RetryAttempt } from "./policies";
+  import {
+    CheckpointError,
+    parseCheckpoint,
+    serializeCheckpoint,
+  } from "./checkpoint";
+  import type { Checkpoint } from "./checkpoint";
+  import { callSink } from "./telemetry";
+  import { fallbackTargets, generateRunId, scopeContext } from "../internal";
+  import {
+    FallbackError,
+    IntentConfigurationError,
+    ReliabilityError,
+    StepExecutionError,
+    serializeError,
+  } from "../utils/error";
   export async function runIntent<Input, Output>(
     intent: Intent<Input, Output>,
-    ctx: ExecutionContext<Input>
+    ctx: ExecutionContext<Input>,
+    options: RunOptions = {}
   ): Promise<ExecutionResult<Output>> {
+    return executeIntent(intent, ctx, options);
+  }
+
+  // Continue a run from its last checkpoint: completed steps are not run
+  // again, their outputs and the run's metadata are restored, and execution
+  // picks up at the next step. Rejects with CheckpointError if there is no
+  // usable checkpoint for `runId`.
+  export async function resumeIntent<Input, Output>(
+    intent: Intent<Input, Output>,
+    runId: string,
+    ctx: ExecutionContext<Input>,
+    options: RunOptions = {}
+  ): Promise<ExecutionResult<Output>> {
+    const store = options.checkpointStore;
+
+    if (!store) {
+      throw new CheckpointError(
+        `resumeIntent("${intent.name}") needs options.checkpointStore`,
+        runId
+      );
+    }
+
+    const checkpoint = await store.load(runId);
+
+    if (!checkpoint) {
+      throw new CheckpointError(`No checkpoint found for run "${runId}"`, runId);
+    }
+
+    if (checkpoint.intentName !== intent.name) {
+      throw new CheckpointError(
+        `Checkpoint for run "${runId}" belongs to intent "${checkpoint.intentName}", not "${intent.name}"`,
+        runId
+      );
+    }
+
+    if (checkpoint.compensated) {
+      throw new CheckpointError(
+        `Run "${runId}" failed and its steps were compensated; start a new run instead of resuming it`,
+        runId
+      );
+    }
+
+    return executeIntent(intent, ctx, { ...options, runId }, { checkpoint });
+  }
+
+  export class ApprovalRejectedError extends ReliabilityError {
+    stepId: StepId;
+    decision: ApprovalDecision;
+    constructor(stepId: StepId, decision: ApprovalDecision) {
+      super(
+        `Approval for step "${stepId}" was rejected` +
+          (decision.reviewer ? ` by ${decision.reviewer}` : ""),
+        "user"
+      );
+      this.name = "ApprovalRejectedError";
+      this.stepId = stepId;
+      this.decision = decision;
+    }
+  }
+
+  // Continue a run suspended on an awaitApproval step. The approval step
+  // runs with the decision on ctx.approval (or fails with
+  // ApprovalRejectedError, which its fallbackTo can handle), then the run
+  // carries on as usual.
+  export async function resumeWithApproval<Input, Output>(
+    intent: Intent<Input, Output>,
+    suspended: Pick<SuspendedRun, "token" | "state">,
+    decision: ApprovalDecision,
+    ctx: ExecutionContext<Input>,
+    options: RunOptions = {}
+  ): Promise<ExecutionResult<Output>> {
+    const checkpoint = parseCheckpoint(suspended.state, "(suspended run)");
+
+    if (!checkpoint.suspended || checkpoint.suspended.token !== suspended.token) {
+      throw new CheckpointError(
+        `Resume token does not match the suspended state of run "${checkpoint.runId}"`,
+        checkpoint.runId
+      );
+    }
+
+    if (checkpoint.intentName !== intent.name) {
+      throw new CheckpointError(
+        `Suspended run "${checkpoint.runId}" belongs to intent "${checkpoint.intentName}", not "${intent.name}"`,
+        checkpoint.runId
+      );
+    }
+
+    return executeIntent(
+      intent,
+      ctx,
+      { ...options, runId: checkpoint.runId },
+      { checkpoint, approval: decision }
+    );
+  }
+
+  // Run an intent and read its telemetry as it happens, e.g. to forward step
+  // progress to a browser over server-sent events:
+  //
+  //    for await (const event of streamIntent(intent, ctx)) {
+  //      res.write(`data: ${JSON.stringify(event)}\n\n`);
+  //    }
+  //
+  // The run starts on the first read. Every event the run emits is yielded
+  // (ctx.telemetry still receives them too), followed by one intent_result
+  // event carrying the ExecutionResult. A consumer that falls
+  // highWaterMark events behind pauses the run before its next step, and a
+  // streamed step before its next chunk (the pause counts against the step's
+  // timeoutMs); leaving the loop early cancels the run (compensations still
+  // run).
+  export async function* streamIntent<Input, Output>(
+    intent: Intent<Input, Output>,
+    ctx: ExecutionContext<Input>,
+    options: StreamOptions = {}
+  ): AsyncGenerator<IntentStreamEvent<Output>, void, undefined> {
+    const { highWaterMark = 100, signal: callerSignal, ...runOptions } = options;
+
+    // below 1 the run would wait for a queue that can't get short enough
+    if (!Number.isInteger(highWaterMark) || highWaterMark < 1) {
+      throw new IntentConfigurationError(
+        `streamIntent("${intent.name}"): highWaterMark must be a positive integer`,
+        intent.name
+      );
+    }
+    const queue: TelemetryEvent[] = [];
+    // the consumer waiting for an event, and steps waiting for the consumer
+    let wakeConsumer: (() => void) | undefined;
+    let resumeRun: (() => void)[] = [];
+
+    const notify = () => {
+      wakeConsumer?.();
+      wakeConsumer = undefined;
+    };
+    const release = () => {
+      for (const resolve of resumeRun) resolve();
+      resumeRun = [];
+    };
+
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort(callerSignal?.reason);
+    if (callerSignal?.aborted) onCallerAbort();
+    else callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+
+    const waitForConsumer = (signal: AbortSignal) => {
+      if (queue.length < highWaterMark || signal.aborted) return undefined;
+      return new Promise<void>((resolve) => {
+        resumeRun.push(resolve);
+        signal.addEventListener("abort", () => resolve(), { once: true });
+      });
+    };
+    const hooks: RunHooks = { beforeStep: waitForConsumer, beforeChunk: waitForConsumer };
+    const telemetry: TelemetrySink = (event) => {
+      callSink(ctx.telemetry, event);
+      queue.push(event);
+      notify();
+    };
+
+    let settled = false;
+    let result: ExecutionResult<Output> | undefined;
+    let failure: { error: unknown } | undefined;
+    const run = executeIntent(
+      intent,
+      { ...ctx, telemetry },
+      { ...runOptions, signal: controller.signal },
+      {},
+      hooks
+    )
+      .then(
+        (value) => {
+          result = value;
+        },
+        (error: unknown) => {
+          failure = { error };
+        }
+      )
+      .finally(() => {
+        settled = true;
+        callerSignal?.removeEventListener("abort", onCallerAbort);
+        notify();
+      });
+
+    try {
+      for (;;) {
+        const event = queue.shift();
+
+        if (event) {
+          if (queue.length < highWaterMark) release();
+          yield event;
+        } else if (settled) {
+          break;
+        } else {
+          await new Promise<void>((resolve) => (wakeConsumer = resolve));
+        }
+      }
+
+      if (failure) throw failure.error;
+
+      yield {
+        type: "intent_result",
+        timestamp: Date.now(),
+        intentName: intent.name,
+        runId: result!.runId,
+        result: result!,
+      };
+    } finally {
+      // the consumer stopped early (break, return or a throw in its loop)
+      if (!settled) {
+        controller.abort(new CancelledError(`Stream of intent "${intent.name}" was closed`));
+        release();
+        await run;
+      }
+    }
+  }
+
+  interface ResumeState {
+    checkpoint?: Checkpoint;
+    // reviewer decision for the step the checkpoint is suspended on
+    approval?: ApprovalDecision;
+  }
+
+  // Internal extension points for runIntent's variants (see streamIntent)
+  interface RunHooks {
+    // awaited before each step (not fallback tiers) starts
+    beforeStep?: (signal: AbortSignal) => Promise<void> | undefined;
+    // awaited after each chunk of a streamed step, before the next is read
+    beforeChunk?: (signal: AbortSignal) => Promise<void> | undefined;
+  }
+
+  async function executeIntent<Input, Output>(
+    intent: Intent<Input, Output>,
+    ctx: ExecutionContext<Input>,
+    options: RunOptions,
+    resume: ResumeState = {},
+    hooks: RunHooks = {}
+  ): Promise<ExecutionResult<Output>> {
+    const { checkpoint } = resume;
     const trace: TelemetryEvent[] = [];
     const { name, steps } = intent;
     const telemetrySink = ctx.telemetry;
-    const metadata = ctx.metadata;
-    const emit = (event: TelemetryEvent) => {
-      trace.push(event);
-      telemetrySink?.(event);
+    const runId = options.runId ?? generateRunId();
+    const checkpointStore = options.checkpointStore;
+    const metadata = checkpoint ? checkpoint.metadata : ctx.metadata;
+    // Outputs of every step that has finished successfully in this run,
+    // keyed by step id. Exposed read-only to steps as `ctx.outputs`.
+    const outputs: Record<StepId, unknown> = { ...checkpoint?.outputs };
+    // Same steps, in the order they finished (restored when resuming).
+    const completedStepIds: StepId[] = [...(checkpoint?.completedStepIds ?? [])];
+    // ...and, for those a fallback completed, which step actually ran
+    const servedBy: Record<StepId, StepId> = { ...checkpoint?.servedBy };
+    // Chunks of the streamed steps among them, replayable as `ctx.streams`
+    // (this run only: chunks are not checkpointed, the assembled output is)
+    const streams: Record<StepId, AsyncIterable<unknown>> = {};
+    // Intent-level deadline: one absolute cut-off for the whole run, which
+    // every step's timeout and retry loop is clamped to.
+    const clock = options.clock ?? systemClock;
+    const deadlineMs = options.deadlineMs ?? intent.deadlineMs;
+    const deadline =
+      deadlineMs !== undefined ? clock.now() + deadlineMs : undefined;
+    const remainingMs = () =>
+      deadline === undefined ? Infinity : Math.max(0, deadline - clock.now());
+    // Steps share one run-scoped context; the caller's object is never mutated.
+    const runCtx: ExecutionContext<Input> = {
+      ...ctx,
+      metadata,
+      outputs,
+      streams,
+      remainingMs,
+    };
+    // Every event of the run, including the ones policies emit (retries,
+    // timeouts, circuit changes, ...), is stamped with the run's ids so it
+    // can be correlated with other requests. The caller's trace context only
+    // needs to reach span exporters once, on intent_started.
+    const { parentRunId, correlationId, traceparent } = options;
+    const record: TelemetrySink = (event) => {
+      const stamped: TelemetryEvent = {
+        ...event,
+        runId,
+        ...(parentRunId !== undefined && { parentRunId }),
+        ...(correlationId !== undefined && { correlationId }),
+        ...(traceparent !== undefined &&
+          event.type === "intent_started" && { traceparent }),
+      };
+
+      trace.push(stamped);
+      // a broken sink must not fail (or reject out of) the run
+      callSink(telemetrySink, stamped);
+    };
+    // Steps fail with real Error objects; events carry their serialized
+    // form so traces and sinks can be logged as JSON.
+    const emit = ({ error, attemptErrors, ...rest }: EngineEvent) => {
+      record({
+        ...rest,
+        ...(error !== undefined && { error: serializeError(error) }),
+        ...(attemptErrors && {
+          attemptErrors: attemptErrors.map((a) => ({
+            ...a,
+            error: serializeError(a.error),
+          })),
+        }),
+      });
     };
    
-    const now = () => Date.now();
+    const now = () => clock.now();
+    const startedAt = now();
+    // attempts made by every step of this run (retries included)
+    let totalAttempts = 0;
+    const finishedFields = () => ({
+      durationMs: now() - startedAt,
+      attempts: totalAttempts,
+    });
   
     // 1. No steps = fail fast (preserve previous behavior)
     if (!steps || steps.length === 0) {
-      const error = new Error(`Intent "${name}" has no steps defined.`);
+      const error = new IntentConfigurationError(
+        `Intent "${name}" has no steps defined.`,
+        name
+      );
   
       emit({
         type: "intent_started",
@@ -142,10 +484,13 @@ import type {
         timestamp: now(),
         success: false,
         error,
+        ...finishedFields(),
       });
   
       return {
         intentName: name,
+        runId,
+        status: "failed",
         success: false,
         error,
         trace,
@@ -158,8 +503,9 @@ import type {
     const entryStep = steps.find((step) => step.id === entryStepId);
   
     if (!entryStep) {
-      const error = new Error(
-        `entryStepId "${entryStepId}" does not match any step id.`
+      const error = new IntentConfigurationError(
+        `entryStepId "${entryStepId}" does not match any step id.`,
+        name
       );
   
       emit({
@@ -174,14 +520,17 @@ import type {
         timestamp: now(),
         success: false,
         error,
+        ...finishedFields(),
       });
   
       return {
         intentName: name,
+        runId,
+        status: "failed",
         success: false,
         error,
         trace,
-        metadata
+        metadata,
       };
     }
   
@@ -191,239 +540,813 @@ import type {
       intentName: name,
       timestamp: now(),
     });
+
+    // A decision only applies to the approval step the run was suspended on,
+    // and only once (a route back to that step asks for approval again).
+    let pendingApproval =
+      resume.approval && checkpoint?.suspended
+        ? { stepId: checkpoint.suspended.stepId, decision: resume.approval }
+        : undefined;
+
+    if (checkpoint?.suspended) {
+      emit({
+        type: "intent_resumed",
+        intentName: name,
+        stepId: checkpoint.suspended.stepId,
+        timestamp: now(),
+        durationMs: now() - checkpoint.suspended.suspendedAt,
+      });
+    }
+
+    const takeApproval = (step: StepConfig<Input, Output>) => {
+      if (pendingApproval?.stepId !== step.id) return undefined;
+      const { decision } = pendingApproval;
+      pendingApproval = undefined;
+      return decision;
+    };
+
+    // Run-wide cancellation. Every attempt gets a child signal (ctx.signal)
+    // from runWithTimeout, so aborting this one reaches in-flight steps too.
+    const runController = new AbortController();
+    const runSignal = runController.signal;
+    const callerSignal = options.signal;
+    const onCallerAbort = () => {
+      runController.abort(
+        new CancelledError(`Intent "${name}" was cancelled`, callerSignal?.reason)
+      );
+    };
+
+    if (callerSignal?.aborted) {
+      onCallerAbort();
+    } else {
+      callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+    }
+
+    // `cause`: the failure the run was stuck on when its budget ran out
+    const runDeadlineError = (cause?: unknown) =>
+      new DeadlineExceededError(
+        `Intent "${name}" exceeded its ${deadlineMs}ms deadline`,
+        cause
+      );
+
+    // Helper: persist progress after a step. Failing to save is a run
+    // failure: a checkpoint that silently didn't happen can't be resumed.
+    const snapshot = (nextStepId?: StepId): Checkpoint => ({
+      runId,
+      intentName: name,
+      completedStepIds: [...completedStepIds],
+      outputs: { ...outputs },
+      servedBy: { ...servedBy },
+      metadata: runCtx.metadata,
+      nextStepId,
+      updatedAt: now(),
+    });
+
+    const saveCheckpoint = async (nextStepId?: StepId) => {
+      if (!checkpointStore) return;
+
+      try {
+        await checkpointStore.save(snapshot(nextStepId));
+      } catch (error) {
+        throw error instanceof CheckpointError
+          ? error
+          : new CheckpointError(
+              `Could not save checkpoint for run "${runId}"`,
+              runId,
+              error
+            );
+      }
+    };
+
+    // Helper: stop at an awaitApproval step. The suspended state is always
+    // returned to the caller, and also saved when a store is attached.
+    const suspend = async (stepId: StepId): Promise<RunOutcome<Output>> => {
+      const token = generateRunId();
+      const state = {
+        ...snapshot(stepId),
+        suspended: { stepId, token, suspendedAt: now() },
+      };
+
+      try {
+        const serialized = serializeCheckpoint(state);
+        await checkpointStore?.save(state);
+        return { success: false, suspended: { token, stepId, state: serialized } };
+      } catch (error) {
+        return { success: false, error };
+      }
+    };
+
+    // Helper: run a single step's work with its retry + timeout policies.
+    // Whatever makes it fail comes out wrapped in a StepExecutionError.
+    const executeStep = async (
+      step: StepConfig<Input, Output>,
+      approval?: ApprovalDecision
+    ) => {
+      if (approval && !approval.approved) {
+        throw new StepExecutionError(
+          name,
+          step.id,
+          0,
+          new ApprovalRejectedError(step.id, approval)
+        );
+      }
+
+      const policyOptions = { signal: runSignal, deadline, clock };
+      // A step may stream its result: read it chunk by chunk (forwarding
+      // each one) and assemble the output, all inside the attempt so the
+      // step's timeout and retry policies cover the whole stream. Retries
+      // and hedges restart the stream, so each chunk is stamped with the
+      // attempt (and hedge) that produced it.
+      let chunks: unknown[] | undefined;
+      const runAttempt = async (signal: AbortSignal, hedge: number) => {
+        const attemptNumber = attempts;
+        const result = await step.run(scopeContext(runCtx, { signal, approval }));
+        if (!isAsyncIterable(result)) return result;
+
+        const received = await readStream(
+          result,
+          (chunk, chunkIndex) => {
+            record({
+              type: "step_chunk",
+              intentName: name,
+              stepId: step.id,
+              timestamp: now(),
+              chunk,
+              chunkIndex,
+              attempt: attemptNumber,
+              ...(step.hedge && { hedge }),
+            });
+            return hooks.beforeChunk?.(signal);
+          },
+          step.idleTimeoutMs,
+          record,
+          name,
+          step.id,
+          { signal, clock }
+        );
+
+        chunks = received;
+        return step.assemble ? step.assemble(received) : assembleChunks(received);
+      };
+      // One timed attempt. With a hedge policy several of them may race; each
+      // gets its own signal so the losers can be aborted.
+      const timed = (signal: AbortSignal, hedge: number) =>
+        runWithTimeout(
+          (timeoutSignal) => runAttempt(timeoutSignal, hedge),
+          step.timeoutMs,
+          record,
+          name,
+          step.id,
+          { ...policyOptions, signal }
+        );
+      // Shared policies, outermost first: an open circuit fails before
+      // queueing, and a call gets its rate-limit token before it takes a
+      // bulkhead slot (so waiting for a token doesn't hold a slot). Tokens
+      // and slots are taken inside the hedge: every hedged attempt is a call
+      // of its own and pays for one.
+      const bulkheaded = (signal: AbortSignal, hedge: number) =>
+        step.bulkhead
+          ? step.bulkhead.execute(() => timed(signal, hedge), record, name, step.id, {
+              ...policyOptions,
+              signal,
+            })
+          : timed(signal, hedge);
+      const limited = (signal: AbortSignal, hedge: number) =>
+        step.rateLimiter
+          ? step.rateLimiter.execute(() => bulkheaded(signal, hedge), record, name, step.id, {
+              ...policyOptions,
+              signal,
+            })
+          : bulkheaded(signal, hedge);
+      const hedged = () =>
+        runWithHedge(limited, step.hedge, record, name, step.id, policyOptions);
+      const attempt = () =>
+        step.circuitBreaker
+          ? step.circuitBreaker.execute(hedged, record, name, step.id)
+          : hedged();
+
+      let attempts = 0;
+
+      try {
+        const output = await runWithRetry(
+          () => {
+            attempts++;
+            totalAttempts++;
+            return attempt();
+          },
+          record,
+          name,
+          step.id,
+          step.retry,
+          policyOptions
+        );
+
+        if (chunks) {
+          const replay = chunks;
+          streams[step.id] = {
+            async *[Symbol.asyncIterator]() {
+              yield* replay;
+            },
+          };
+        }
+
+        return { output, attempts, streamed: chunks !== undefined };
+      } catch (cause) {
+        throw new StepExecutionError(
+          name,
+          step.id,
+          attempts,
+          cause,
+          cause instanceof RetryExhaustedError ? cause.attempts : []
+        );
+      }
+    };
   
-    let currentStepId: StepId | undefined = entryStep.id;
-    let lastOutput: Output | undefined;
-  
-    // Helper: run a step (with retry+timeout) and its optional fallback,
-    // and decide which step comes next.
+    // Helper: step_finished for a failed step, with how many attempts it
+    // made and (when it ran out of retries) what each of them threw.
+    const failedStepEvent = (
+      stepId: StepId,
+      error: StepExecutionError,
+      stepStartedAt: number
+    ): EngineEvent => ({
+      type: "step_finished",
+      intentName: name,
+      stepId,
+      timestamp: now(),
+      success: false,
+      error,
+      durationMs: now() - stepStartedAt,
+      attempts: error.attempt,
+      ...(error.attempts.length > 0 && { attemptErrors: error.attempts }),
+    });
+
+    // Helper: run a step (with retry+timeout) and its optional fallback.
+    // `servedBy` is the step whose output was used (the step itself or its
+    // fallback); the caller decides what runs next.
     const runStepWithFallback = async (
-      step: StepConfig<Input, Output>
-    ): Promise<{
-      success: boolean;
-      output?: Output;
-      nextStepId?: StepId;
-      error?: unknown;
-    }> => {
+      step: StepConfig<Input, Output>,
+      approval?: ApprovalDecision
+    ): Promise<StepOutcome<Input, Output>> => {
+      await hooks.beforeStep?.(runSignal);
+
       // Primary step started
+      const stepStartedAt = now();
+
       emit({
         type: "step_started",
         intentName: name,
         stepId: step.id,
-        timestamp: now(),
+        timestamp: stepStartedAt,
       });
   
       try {
-        const output = await runWithRetry(
-          () =>
-            runWithTimeout(
-              () => step.run(ctx),
-              step.timeoutMs,
-              ctx.telemetry,
-              name,
-              step.id
-            ),
-          ctx.telemetry,
-          name,
-          step.id,
-          step.retry
-        );
+        const { output, attempts, streamed } = await executeStep(step, approval);
   
+        outputs[step.id] = output;
+        completedStepIds.push(step.id);
+
         emit({
           type: "step_finished",
           intentName: name,
           stepId: step.id,
           timestamp: now(),
           success: true,
+          durationMs: now() - stepStartedAt,
+          attempts,
+          ...(streamed && { output }),
         });
   
-        // Linear chaining: go to the next step in the array
-        const idx = steps.findIndex((s) => s.id === step.id);
-        const next = steps[idx + 1];
-  
         return {
           success: true,
           output: output as Output,
-          nextStepId: next?.id,
+          servedBy: step,
         };
       } catch (error) {
-        const fallbackStepId = step.fallbackTo;
-  
-        // No fallback configured → step fails here
-        if (!fallbackStepId) {
+        const stepError = error as StepExecutionError;
+
+        emit(failedStepEvent(step.id, stepError, stepStartedAt));
+
+        // Walk the fallback chain in order until one tier succeeds. A
+        // cancelled run or an exhausted deadline stops the walk: nothing
+        // new should start once the run's budget is gone.
+        const tierErrors = [stepError];
+        const lastTierError = () => tierErrors[tierErrors.length - 1];
+
+        for (const [index, fallbackStepId] of fallbackChain(step).entries()) {
+          if (
+            runSignal.aborted ||
+            remainingMs() <= 0 ||
+            lastTierError().cause instanceof DeadlineExceededError
+          ) {
+            break;
+          }
+
+          const fallbackStep = steps.find((s) => s.id === fallbackStepId);
+
+          if (!fallbackStep) {
+            return {
+              success: false,
+              error: new IntentConfigurationError(
+                `fallbackTo "${fallbackStepId}" does not match any step id.`,
+                name
+              ),
+            };
+          }
+
           emit({
-            type: "step_finished",
+            type: "fallback_triggered",
             intentName: name,
             stepId: step.id,
             timestamp: now(),
-            success: false,
-            error,
+            fallbackStepId: fallbackStep.id,
+            tier: index + 1,
+            error: lastTierError(),
           });
+
+          const fallbackStartedAt = now();
+
+          emit({
+            type: "step_started",
+            intentName: name,
+            stepId: fallbackStep.id,
+            timestamp: fallbackStartedAt,
+          });
+
+          try {
+            const { output: fallbackOutput, attempts, streamed } =
+              await executeStep(fallbackStep);
+
+            // Downstream steps read the fallback's output under the id of the
+            // step it replaced, so they don't need to know a fallback happened.
+            outputs[step.id] = fallbackOutput;
+            outputs[fallbackStep.id] = fallbackOutput;
+            if (streamed) streams[step.id] = streams[fallbackStep.id];
+            completedStepIds.push(step.id);
+            servedBy[step.id] = fallbackStep.id;
+
+            emit({
+              type: "step_finished",
+              intentName: name,
+              stepId: fallbackStep.id,
+              timestamp: now(),
+              success: true,
+              durationMs: now() - fallbackStartedAt,
+              attempts,
+              ...(streamed && { output: fallbackOutput }),
+            });
+
+            return {
+              success: true,
+              output: fallbackOutput as Output,
+              servedBy: fallbackStep,
+            };
+          } catch (fallbackError) {
+            emit(
+              failedStepEvent(
+                fallbackStep.id,
+                fallbackError as StepExecutionError,
+                fallbackStartedAt
+              )
+            );
+
+            tierErrors.push(fallbackError as StepExecutionError);
+          }
+        }
+
+        // A step without fallbacks fails with its own error; once fallbacks
+        // ran, the FallbackError carries every tier's error.
+        return {
+          success: false,
+          error:
+            tierErrors.length > 1
+              ? new FallbackError(name, step.id, tierErrors)
+              : stepError,
+        };
+      }
+    };
+
+    // Helper: every step that may stand in for `step`, in the order they are
+    // tried. A fallback's own fallbackTo is expanded right after it, so
+    // ["b", "c"] where b falls back to "d" is tried as b, d, c. defineIntent
+    // rejects cycles; `seen` keeps a step from being tried twice regardless.
+    const fallbackChain = (step: StepConfig<Input, Output>): StepId[] => {
+      const chain: StepId[] = [];
+      const seen = new Set<StepId>([step.id]);
+
+      const expand = (from: StepConfig<Input, Output> | undefined) => {
+        for (const id of from ? fallbackTargets(from) : []) {
+          if (seen.has(id)) continue;
+          seen.add(id);
+          chain.push(id);
+          expand(steps.find((s) => s.id === id));
+        }
+      };
+
+      expand(step);
+      return chain;
+    };
   
+    // 4a. Linear mode: A → B → C (with fallback jumps)
+    const runLinear = async (): Promise<RunOutcome<Output>> => {
+      let currentStepId: StepId | undefined = checkpoint
+        ? checkpoint.nextStepId
+        : entryStep.id;
+      // A resumed run's output so far is its last completed step's output
+      let lastOutput = [...completedStepIds]
+        .reverse()
+        .map((id) => outputs[id])
+        .find((output) => output !== undefined) as Output | undefined;
+
+      while (currentStepId) {
+        if (runSignal.aborted) {
+          return { success: false, error: runSignal.reason };
+        }
+
+        if (remainingMs() <= 0) {
+          return { success: false, error: runDeadlineError() };
+        }
+
+        const step = steps.find((s) => s.id === currentStepId);
+  
+        if (!step) {
           return {
             success: false,
-            error,
+            error: new IntentConfigurationError(
+              `Intent "${name}" references unknown step "${currentStepId}".`,
+              name
+            ),
           };
         }
   
-        // Resolve fallback step
-        const fallbackStep = steps.find((s) => s.id === fallbackStepId);
+        const approval = step.awaitApproval ? takeApproval(step) : undefined;
+
+        if (step.awaitApproval && !approval) {
+          return suspend(step.id);
+        }
+
+        const { success, output, servedBy, error } =
+          await runStepWithFallback(step, approval);
+  
+        if (!success) {
+          return { success: false, error };
+        }
   
-        if (!fallbackStep) {
-          const fallbackError = new Error(
-            `fallbackTo "${fallbackStepId}" does not match any step id.`
-          );
+        if (output !== undefined) {
+          lastOutput = output;
+        }
+
+        let nextStepId: StepId | undefined;
   
+        // Conditional routing: a fallback stands in for the step it replaced,
+        // so the original step's next/route decides where to go.
+        if (step.next || step.route) {
+          let routeKey: string | undefined;
+
+          try {
+            if (step.next) {
+              nextStepId = step.next(output as Output, runCtx);
+            } else {
+              routeKey = String(output);
+              nextStepId = step.route![routeKey];
+
+              if (nextStepId === undefined) {
+                throw new IntentConfigurationError(
+                  `Step "${step.id}" in intent "${name}" has no route for output "${routeKey}".`,
+                  name
+                );
+              }
+            }
+          } catch (error) {
+            return { success: false, error };
+          }
+
           emit({
-            type: "step_finished",
+            type: "step_routed",
             intentName: name,
             stepId: step.id,
             timestamp: now(),
-            success: false,
-            error: fallbackError,
+            nextStepId,
+            reason: step.next ? "next" : "route",
+            routeKey,
           });
-  
-          return {
-            success: false,
-            error: fallbackError,
-          };
+        } else {
+          // Linear chaining: go to the next step in the array after whichever
+          // step actually served the output
+          const idx = steps.findIndex((s) => s.id === servedBy!.id);
+          nextStepId = steps[idx + 1]?.id;
         }
-  
-        // Telemetry: primary failed, now starting fallback step
-        emit({
-          type: "step_finished",
-          intentName: name,
-          stepId: step.id,
-          timestamp: now(),
+
+        try {
+          await saveCheckpoint(nextStepId);
+        } catch (error) {
+          return { success: false, error };
+        }
+
+        currentStepId = nextStepId;
+      }
+
+      return { success: true, output: lastOutput };
+    };
+
+    // 4b. Graph mode: a step starts as soon as all of its dependsOn steps have
+    // finished, so independent branches run concurrently. Ready steps are
+    // always started in declaration order, which keeps the step_started part
+    // of the trace deterministic. fallbackTo targets only run in place of a
+    // failed step, never on their own (so never twice).
+    const runGraph = async (): Promise<RunOutcome<Output>> => {
+      const fallbackOnly = new Set(steps.flatMap((s) => fallbackTargets(s)));
+      const scheduled = steps.filter((s) => !fallbackOnly.has(s.id));
+      const hasDependents = new Set(
+        scheduled.flatMap((s) => s.dependsOn ?? [])
+      );
+      const completed = new Set<StepId>(completedStepIds);
+      const started = new Set<StepId>(completed);
+      const inFlight = new Map<
+        StepId,
+        Promise<{ step: StepConfig<Input, Output>; outcome: StepOutcome<Input, Output> }>
+      >();
+      let failure: unknown;
+      let failed = false;
+      // first ready approval step; once set, nothing new starts and the run
+      // suspends after in-flight branches settle
+      let suspendAt: StepId | undefined;
+
+      for (;;) {
+        if (!failed && !runSignal.aborted && !suspendAt) {
+          for (const step of scheduled) {
+            if (started.has(step.id)) continue;
+            if (!(step.dependsOn ?? []).every((dep) => completed.has(dep))) continue;
+
+            const approval = step.awaitApproval ? takeApproval(step) : undefined;
+
+            if (step.awaitApproval && !approval) {
+              suspendAt = step.id;
+              break;
+            }
+
+            started.add(step.id);
+            inFlight.set(
+              step.id,
+              runStepWithFallback(step, approval).then((outcome) => ({
+                step,
+                outcome,
+              }))
+            );
+          }
+        }
+
+        if (inFlight.size === 0) break;
+
+        // Once a step fails nothing new is started, but branches that are
+        // already running are allowed to settle before the intent finishes.
+        const { step, outcome } = await Promise.race(inFlight.values());
+        inFlight.delete(step.id);
+
+        if (!outcome.success) {
+          if (!failed) {
+            failed = true;
+            failure = outcome.error;
+          }
+          continue;
+        }
+
+        completed.add(step.id);
+
+        try {
+          await saveCheckpoint();
+        } catch (error) {
+          if (!failed) {
+            failed = true;
+            failure = error;
+          }
+        }
+      }
+
+      if (failed || runSignal.aborted) {
+        return {
           success: false,
-          error,
-        });
-  
+          error: runSignal.aborted ? runSignal.reason : failure,
+        };
+      }
+
+      if (suspendAt) {
+        return suspend(suspendAt);
+      }
+
+      // defineIntent rejects graphs that strand steps, but an unvalidated
+      // intent could still wait on a step that never runs. Skipping it and
+      // reporting success would hide that.
+      const unrun = scheduled.filter((s) => !started.has(s.id)).map((s) => s.id);
+
+      if (unrun.length > 0) {
+        return {
+          success: false,
+          error: new IntentConfigurationError(
+            `Intent "${name}" finished without running step(s) ${unrun
+              .map((id) => `"${id}"`)
+              .join(", ")}: their dependencies never completed`,
+            name
+          ),
+        };
+      }
+
+      // The intent's output comes from the last declared step that nothing
+      // else depends on (the "sink" of the graph).
+      const sink = scheduled.filter((s) => !hasDependents.has(s.id)).pop();
+
+      return {
+        success: true,
+        output: sink && (outputs[sink.id] as Output | undefined),
+      };
+    };
+
+    const usesGraph = steps.some((s) => s.dependsOn !== undefined);
+    const outcome = usesGraph ? await runGraph() : await runLinear();
+
+    callerSignal?.removeEventListener("abort", onCallerAbort);
+
+    // A suspended run hasn't finished: intent_suspended is its last event
+    if (outcome.suspended) {
+      emit({
+        type: "intent_suspended",
+        intentName: name,
+        stepId: outcome.suspended.stepId,
+        timestamp: now(),
+      });
+
+      return {
+        intentName: name,
+        runId,
+        status: "suspended",
+        success: false,
+        trace,
+        metadata: runCtx.metadata,
+        suspended: outcome.suspended,
+      };
+    }
+
+    let status: ExecutionStatus = outcome.success ? "succeeded" : "failed";
+
+    // Saga compensation: undo completed steps, most recent first. These run
+    // with their own policies only; the run's signal and deadline are
+    // usually what just failed, so they must not cut compensation short.
+    const compensations: CompensationRecord[] = [];
+
+    if (!outcome.success) {
+      for (const stepId of [...completedStepIds].reverse()) {
+        const ran = steps.find((s) => s.id === (servedBy[stepId] ?? stepId));
+        if (!ran?.compensate) continue;
+
+        const compensate = ran.compensate;
+        const policy = ran.compensation ?? {};
+
         emit({
-          type: "step_started",
+          type: "compensation_started",
           intentName: name,
-          stepId: fallbackStep.id,
+          stepId: ran.id,
           timestamp: now(),
         });
-  
+
         try {
-          const fallbackOutput = await runWithRetry(
+          await runWithRetry(
             () =>
               runWithTimeout(
-                () => fallbackStep.run(ctx),
-                fallbackStep.timeoutMs,
-                ctx.telemetry,
+                (signal) =>
+                  compensate(
+                    scopeContext(runCtx, { signal }),
+                    outputs[stepId] as Output
+                  ),
+                policy.timeoutMs,
+                record,
                 name,
-                fallbackStep.id
+                ran.id,
+                { clock }
               ),
-            ctx.telemetry,
+            record,
             name,
-            fallbackStep.id,
-            fallbackStep.retry
+            ran.id,
+            policy.retry,
+            { clock }
           );
-  
+
+          compensations.push({ stepId: ran.id, success: true });
           emit({
-            type: "step_finished",
+            type: "compensation_finished",
             intentName: name,
-            stepId: fallbackStep.id,
+            stepId: ran.id,
             timestamp: now(),
             success: true,
           });
-  
-          const idx = steps.findIndex((s) => s.id === fallbackStep.id);
-          const next = steps[idx + 1];
-  
-          return {
-            success: true,
-            output: fallbackOutput as Output,
-            nextStepId: next?.id,
-          };
-        } catch (fallbackError) {
+        } catch (error) {
+          // keep going: one failed undo must not block the others
+          compensations.push({ stepId: ran.id, success: false, error });
           emit({
-            type: "step_finished",
+            type: "compensation_finished",
             intentName: name,
-            stepId: fallbackStep.id,
+            stepId: ran.id,
             timestamp: now(),
             success: false,
-            error: fallbackError,
+            error,
           });
-  
-          return {
-            success: false,
-            error: fallbackError,
-          };
         }
       }
-    };
-  
-    // 4. Main linear loop: A → B → C (with fallback jumps)
-    while (currentStepId) {
-      const step = steps.find((s) => s.id === currentStepId);
-  
-      if (!step) {
-        const error = new Error(
-          `Intent "${name}" references unknown step "${currentStepId}".`
-        );
-  
-        emit({
-          type: "intent_finished",
-          intentName: name,
-          timestamp: now(),
-          success: false,
-          error,
-        });
-  
-        return {
-          intentName: name,
-          success: false,
-          error,
-          trace,
-          metadata
-        };
-      }
-  
-      const { success, output, nextStepId, error } =
-        await runStepWithFallback(step);
-  
-      if (!success) {
-        emit({
-          type: "intent_finished",
-          intentName: name,
-          timestamp: now(),
-          success: false,
-          error,
-        });
-  
-        return {
-          intentName: name,
-          success: false,
-          error,
-          trace,
-          metadata
-        };
+
+      // The checkpoint still lists the undone steps as completed; mark it
+      // so resumeIntent refuses it. If even that can't be saved, drop the
+      // checkpoint: no checkpoint is safer than one that resumes onto
+      // undone work. The run has already failed, so neither error is raised.
+      if (checkpointStore && compensations.length > 0) {
+        try {
+          await checkpointStore.save({
+            ...snapshot(),
+            compensated: {
+              stepIds: compensations.map((c) => c.stepId),
+              compensatedAt: now(),
+            },
+          });
+        } catch {
+          await checkpointStore.delete(runId).catch(() => undefined);
+        }
       }
-  
-      if (output !== undefined) {
-        lastOutput = output;
+    }
+
+    // 5. Finish the intent (a cancelled run reports why before finishing)
+    if (!outcome.success && runSignal.aborted) {
+      outcome.error = runSignal.reason;
+      status = "cancelled";
+
+      emit({
+        type: "intent_cancelled",
+        intentName: name,
+        timestamp: now(),
+        error: outcome.error,
+      });
+    } else if (!outcome.success && deadline !== undefined && remainingMs() <= 0) {
+      if (!(outcome.error instanceof DeadlineExceededError)) {
+        outcome.error = runDeadlineError(outcome.error);
       }
-  
-      currentStepId = nextStepId;
+
+      emit({
+        type: "deadline_exceeded",
+        intentName: name,
+        timestamp: now(),
+        error: outcome.error,
+      });
     }
-  
-    // 5. All steps completed successfully
     emit({
       type: "intent_finished",
       intentName: name,
       timestamp: now(),
-      success: true,
+      success: outcome.success,
+      error: outcome.error,
+      ...finishedFields(),
     });
   
     return {
       intentName: name,
-      success: true,
-      output: lastOutput,
+      runId,
+      status,
+      success: outcome.success,
+      output: outcome.output,
+      error: outcome.error,
       trace,
-      metadata
+      metadata: runCtx.metadata,
+      ...(compensations.length > 0 && { compensations }),
     };
   }
-  
\ No newline at end of file
+
+  // What engine code emits: errors as thrown, serialized by emit()
+  type EngineEvent = Omit<TelemetryEvent, "error" | "attemptErrors"> & {
+    error?: unknown;
+    attemptErrors?: RetryAttempt[];
+  };
+
+  interface StepOutcome<Input, Output> {
+    success: boolean;
+    output?: Output;
+    servedBy?: StepConfig<Input, Output>;
+    error?: unknown;
+  }
+
+  interface RunOutcome<Output> {
+    success: boolean;
+    output?: Output;
+    error?: unknown;
+    suspended?: SuspendedRun;
+  }
+
+  function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === "function"
+    );
+  }
+
+  // Default `assemble`: text streams become one string, anything else the
+  // array of chunks
+  function assembleChunks(chunks: unknown[]): unknown {
+    return chunks.every((chunk) => typeof chunk === "string")
+      ? chunks.join("")
+      : chunks;
+  }
@@ -16,8 +16,6 @@
  *
  * Think of this file as the “compiler” for your mini intent DSL.
  */
-// In a later pass we can swap these generic `Error`s for a custom
-// IntentConfigurationError in ../utils/errors if we want nicer error types.
 
 /**
  * Public factory used by library consumers.
@@ -41,27 +39,32 @@
  */
 
 // src/core/intent.ts
-import type { Intent, IntentConfig, StepId } from "../types";
+import type { Intent, IntentConfig, StepConfig, StepId } from "../types";
+import { fallbackTargets } from "../internal";
+import { IntentConfigurationError } from "../utils/error";
 
 export function defineIntent<Input = unknown, Output = unknown>(
   config: IntentConfig<Input, Output>
 ): Intent<Input, Output> {
  
   if (!config || typeof config !== "object") {
-    throw new Error("Config must be an object");
+    throw new IntentConfigurationError("Config must be an object");
   }
 
   
-  const { name, steps, entryStepId } = config;
+  const { name, steps, entryStepId, deadlineMs } = config;
 
   
   if (!name || typeof name !== "string") {
-    throw new Error("Intent must have a non-empty name");
+    throw new IntentConfigurationError("Intent must have a non-empty name");
   }
 
   
   if (!Array.isArray(steps) || steps.length === 0) {
-    throw new Error(`defineIntent("${name}"): intent must have at least one step`);
+    throw new IntentConfigurationError(
+      `defineIntent("${name}"): intent must have at least one step`,
+      name
+    );
   }
 
   // 5. Check each step has a unique id and a run() function
@@ -69,40 +72,253 @@ export function defineIntent<Input = unknown, Output = unknown>(
 
   for (const step of steps) {
     if (!step.id) {
-      throw new Error(`defineIntent("${name}"): found a step with no id`);
+      throw new IntentConfigurationError(
+        `defineIntent("${name}"): found a step with no id`,
+        name
+      );
     }
 
     if (ids.has(step.id)) {
-      throw new Error(
-        `defineIntent("${name}"): duplicate step id "${step.id}"`
+      throw new IntentConfigurationError(
+        `defineIntent("${name}"): duplicate step id "${step.id}"`,
+        name
       );
     }
 
     ids.add(step.id);
 
     if (typeof step.run !== "function") {
-      throw new Error(
-        `defineIntent("${name}"): step "${step.id}" is missing a valid run() function`
+      throw new IntentConfigurationError(
+        `defineIntent("${name}"): step "${step.id}" is missing a valid run() function`,
+        name
       );
     }
   }
 
   
+  // 6. Validate the dependency graph (only used when a step declares dependsOn)
+  for (const step of steps) {
+    if (step.dependsOn === undefined) continue;
+
+    if (!Array.isArray(step.dependsOn)) {
+      throw new IntentConfigurationError(
+        `defineIntent("${name}"): step "${step.id}" dependsOn must be an array of step ids`,
+        name
+      );
+    }
+
+    for (const dep of step.dependsOn) {
+      if (dep === step.id) {
+        throw new IntentConfigurationError(
+          `defineIntent("${name}"): step "${step.id}" cannot depend on itself`,
+          name
+        );
+      }
+
+      if (!ids.has(dep)) {
+        throw new IntentConfigurationError(
+          `defineIntent("${name}"): step "${step.id}" depends on unknown step "${dep}"`,
+          name
+        );
+      }
+    }
+  }
+
+  const cycle = findCycle(steps, (step) => step.dependsOn ?? []);
+
+  if (cycle) {
+    throw new IntentConfigurationError(
+      `defineIntent("${name}"): dependency cycle detected (${cycle.join(" -> ")})`,
+      name
+    );
+  }
+
+  // 7. Validate conditional routing
+  const usesGraph = steps.some((step) => step.dependsOn !== undefined);
+
+  for (const step of steps) {
+    if (step.next === undefined && step.route === undefined) continue;
+
+    if (usesGraph) {
+      throw new IntentConfigurationError(
+        `defineIntent("${name}"): step "${step.id}" declares next/route, which is not supported together with dependsOn`,
+        name
+      );
+    }
+
+    if (step.next !== undefined && step.route !== undefined) {
+      throw new IntentConfigurationError(
+        `defineIntent("${name}"): step "${step.id}" declares both next and route; use one`,
+        name
+      );
+    }
+
+    if (step.next !== undefined && typeof step.next !== "function") {
+      throw new IntentConfigurationError(
+        `defineIntent("${name}"): step "${step.id}" next must be a function`,
+        name
+      );
+    }
+
+    for (const [key, target] of Object.entries(step.route ?? {})) {
+      if (!ids.has(target)) {
+        throw new IntentConfigurationError(
+          `defineIntent("${name}"): step "${step.id}" routes "${key}" to unknown step "${target}"`,
+          name
+        );
+      }
+    }
+  }
+
+  // 8. Validate fallback chains
+  for (const step of steps) {
+    const { fallbackTo } = step;
+    if (fallbackTo === undefined) continue;
+
+    if (
+      Array.isArray(fallbackTo)
+        ? fallbackTo.length === 0 ||
+          fallbackTo.some((target) => typeof target !== "string")
+        : typeof fallbackTo !== "string"
+    ) {
+      throw new IntentConfigurationError(
+        `defineIntent("${name}"): step "${step.id}" fallbackTo must be a step id or a non-empty array of step ids`,
+        name
+      );
+    }
+
+    const targets = fallbackTargets(step);
+
+    for (const target of targets) {
+      if (target === step.id) {
+        throw new IntentConfigurationError(
+          `defineIntent("${name}"): step "${step.id}" cannot fall back to itself`,
+          name
+        );
+      }
+
+      if (!ids.has(target)) {
+        throw new IntentConfigurationError(
+          `defineIntent("${name}"): step "${step.id}" falls back to unknown step "${target}"`,
+          name
+        );
+      }
+    }
+
+    if (new Set(targets).size !== targets.length) {
+      throw new IntentConfigurationError(
+        `defineIntent("${name}"): step "${step.id}" lists the same fallback more than once`,
+        name
+      );
+    }
+  }
+
+  const fallbackCycle = findCycle(steps, fallbackTargets);
+
+  if (fallbackCycle) {
+    throw new IntentConfigurationError(
+      `defineIntent("${name}"): fallback cycle detected (${fallbackCycle.join(" -> ")})`,
+      name
+    );
+  }
+
+  // In a graph, fallbackTo targets only run in place of the step that failed:
+  // they can't wait on dependencies of their own, and a step waiting on one
+  // would never start.
+  if (usesGraph) {
+    for (const step of steps) {
+      for (const target of fallbackTargets(step)) {
+        if (steps.find((s) => s.id === target)?.dependsOn !== undefined) {
+          throw new IntentConfigurationError(
+            `defineIntent("${name}"): step "${step.id}" falls back to "${target}", which declares dependsOn; fallback steps can't have dependencies`,
+            name
+          );
+        }
+      }
+    }
+
+    const fallbackOnly = new Set(steps.flatMap(fallbackTargets));
+
+    for (const step of steps) {
+      const dep = (step.dependsOn ?? []).find((id) => fallbackOnly.has(id));
+
+      if (dep !== undefined) {
+        throw new IntentConfigurationError(
+          `defineIntent("${name}"): step "${step.id}" depends on "${dep}", which only runs as a fallback`,
+          name
+        );
+      }
+    }
+  }
+
+  if (
+    deadlineMs !== undefined &&
+    (typeof deadlineMs !== "number" || !(deadlineMs > 0))
+  ) {
+    throw new IntentConfigurationError(
+      `defineIntent("${name}"): deadlineMs must be a positive number`,
+      name
+    );
+  }
+
   const finalEntryStepId: StepId = entryStepId ?? steps[0].id;
 
   if (!ids.has(finalEntryStepId)) {
-    throw new Error(
-      `defineIntent("${name}"): entryStepId "${finalEntryStepId}" does not match any step id`
+    throw new IntentConfigurationError(
+      `defineIntent("${name}"): entryStepId "${finalEntryStepId}" does not match any step id`,
+      name
     );
   }
 
-  // 7. Build the final normalized Intent object
+  // 9. Build the final normalized Intent object
   const normalized: Intent<Input, Output> = {
     name,
     steps: steps.slice(), // copy array so user can’t mutate ours
-    entryStepId: finalEntryStepId
+    entryStepId: finalEntryStepId,
+    ...(deadlineMs !== undefined && { deadlineMs }),
   };
 
-  // 8. Freeze to make it read-only
+  // 10. Freeze to make it read-only
   return Object.freeze(normalized);
 }
+
+// Depth-first walk over the edges returned by `edgesOf` (dependsOn,
+// fallbackTo). Returns the offending path (e.g. ["a", "b", "a"]) for the
+// first cycle found, or undefined.
+function findCycle<Input, Output>(
+  steps: StepConfig<Input, Output>[],
+  edgesOf: (step: StepConfig<Input, Output>) => StepId[]
+): StepId[] | undefined {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const state = new Map<StepId, "visiting" | "done">();
+  const path: StepId[] = [];
+
+  const visit = (id: StepId): StepId[] | undefined => {
+    if (state.get(id) === "done") return undefined;
+
+    if (state.get(id) === "visiting") {
+      return [...path.slice(path.indexOf(id)), id];
+    }
+
+    state.set(id, "visiting");
+    path.push(id);
+
+    const step = byId.get(id);
+
+    for (const next of step ? edgesOf(step) : []) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+
+    path.pop();
+    state.set(id, "done");
+    return undefined;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) return cycle;
+  }
+
+  return undefined;
+}
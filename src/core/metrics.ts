@@ -0,0 +1,245 @@
+/**
+ * metrics.ts
+ * -----------
+ * This file aggregates the engine's **telemetry events into metrics**:
+ * counters and latency histograms per intent and step.
+ *
+ * WHY THIS FILE EXISTS:
+ * ----------------------
+ * The trace of a single run answers "what happened to this request?".
+ * Dashboards and alerts need the aggregate instead: success rates, how often
+ * steps retry or time out, p95 latency per step. Building those from raw
+ * events in every app is repetitive, so the metrics sink does it once.
+ *
+ * METRICS:
+ * ---------
+ *    <prefix>intent_runs_total{intent_name, outcome}
+ *    <prefix>intent_duration_seconds{intent_name, outcome}      histogram
+ *    <prefix>step_runs_total{intent_name, step_id, outcome}
+ *    <prefix>step_duration_seconds{intent_name, step_id, outcome} histogram
+ *    <prefix>step_retries_total{intent_name, step_id}
+ *    <prefix>step_timeouts_total{intent_name, step_id}
+ *    <prefix>step_fallbacks_total{intent_name, step_id}
+ *
+ * Intent outcomes are "success", "failure", "cancelled" and "suspended";
+ * step outcomes are "success" and "failure".
+ *
+ * USAGE:
+ * -------
+ *    const metrics = createMetricsSink();
+ *    await runIntent(intent, { ...ctx, telemetry: metrics });
+ *
+ *    app.get("/metrics", (req, res) => {
+ *      res.type("text/plain; version=0.0.4").send(metrics.render());
+ *    });
+ *
+ * `render()` produces the Prometheus text exposition format; `snapshot()`
+ * returns the same numbers as plain objects (handy in tests).
+ */
+
+import type { TelemetryEvent, TelemetrySink } from "../types";
+
+export interface MetricsSinkOptions {
+  // prepended to every metric name (default "reliability_")
+  prefix?: string;
+  // histogram bucket upper bounds, in seconds
+  buckets?: number[];
+}
+
+export type MetricLabels = Record<string, string>;
+
+export interface CounterSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+export interface HistogramSample {
+  labels: MetricLabels;
+  count: number;
+  // in seconds
+  sum: number;
+  // cumulative, like Prometheus: buckets[i] counts observations <= le
+  buckets: { le: number; count: number }[];
+}
+
+// metric name (without prefix) → one sample per label combination
+export interface MetricsSnapshot {
+  counters: Record<string, CounterSample[]>;
+  histograms: Record<string, HistogramSample[]>;
+}
+
+export type MetricsSink = TelemetrySink & {
+  render(): string;
+  snapshot(): MetricsSnapshot;
+  reset(): void;
+};
+
+// LLM calls are slow: the Prometheus defaults stop at 10s, these go to a minute
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const COUNTERS: Record<string, string> = {
+  intent_runs_total: "Intent runs, by outcome.",
+  step_runs_total: "Step executions (retries and fallbacks included), by outcome.",
+  step_retries_total: "Attempts made after a step's first attempt failed.",
+  step_timeouts_total: "Step attempts that hit timeoutMs.",
+  step_fallbacks_total: "Times a step's fallback was triggered.",
+};
+
+const HISTOGRAMS: Record<string, string> = {
+  intent_duration_seconds: "Intent run duration, by outcome.",
+  step_duration_seconds: "Step duration (all attempts), by outcome.",
+};
+
+export function createMetricsSink(options: MetricsSinkOptions = {}): MetricsSink {
+  const prefix = options.prefix ?? "reliability_";
+  const bounds = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+
+  // metric name → serialized labels → sample
+  let counters = new Map<string, Map<string, CounterSample>>();
+  let histograms = new Map<string, Map<string, HistogramSample>>();
+  // runs that reported intent_cancelled, until their intent_finished arrives
+  const cancelledRuns = new Set<string>();
+
+  const increment = (name: string, labels: MetricLabels) => {
+    const samples = counters.get(name) ?? new Map<string, CounterSample>();
+    counters.set(name, samples);
+
+    const key = JSON.stringify(labels);
+    const sample = samples.get(key) ?? { labels, value: 0 };
+    sample.value++;
+    samples.set(key, sample);
+  };
+
+  const observe = (name: string, labels: MetricLabels, durationMs: number | undefined) => {
+    if (durationMs === undefined) return;
+
+    const samples = histograms.get(name) ?? new Map<string, HistogramSample>();
+    histograms.set(name, samples);
+
+    const key = JSON.stringify(labels);
+    const sample = samples.get(key) ?? {
+      labels,
+      count: 0,
+      sum: 0,
+      buckets: bounds.map((le) => ({ le, count: 0 })),
+    };
+    const seconds = durationMs / 1000;
+
+    sample.count++;
+    sample.sum += seconds;
+    for (const bucket of sample.buckets) {
+      if (seconds <= bucket.le) bucket.count++;
+    }
+    samples.set(key, sample);
+  };
+
+  const sink = (event: TelemetryEvent) => {
+    const intent = { intent_name: event.intentName };
+    const step = { ...intent, step_id: event.stepId ?? "" };
+
+    switch (event.type) {
+      case "intent_cancelled":
+        if (event.runId !== undefined) cancelledRuns.add(event.runId);
+        return;
+
+      case "intent_suspended": {
+        const labels = { ...intent, outcome: "suspended" };
+        increment("intent_runs_total", labels);
+        observe("intent_duration_seconds", labels, event.durationMs);
+        return;
+      }
+
+      case "intent_finished": {
+        const cancelled = event.runId !== undefined && cancelledRuns.delete(event.runId);
+        const outcome = event.success ? "success" : cancelled ? "cancelled" : "failure";
+        const labels = { ...intent, outcome };
+        increment("intent_runs_total", labels);
+        observe("intent_duration_seconds", labels, event.durationMs);
+        return;
+      }
+
+      case "step_finished": {
+        const labels = { ...step, outcome: event.success ? "success" : "failure" };
+        increment("step_runs_total", labels);
+        observe("step_duration_seconds", labels, event.durationMs);
+        return;
+      }
+
+      case "retry_attempt_started":
+        if ((event.attempt ?? 1) > 1) increment("step_retries_total", step);
+        return;
+
+      case "timeout_fired":
+        increment("step_timeouts_total", step);
+        return;
+
+      case "fallback_triggered":
+        increment("step_fallbacks_total", step);
+        return;
+    }
+  };
+
+  const snapshot = (): MetricsSnapshot => {
+    const copy = <T>(metrics: Map<string, Map<string, T>>) =>
+      Object.fromEntries(
+        [...metrics].map(([name, samples]) => [
+          name,
+          [...samples.values()].map((sample) => structuredClone(sample)),
+        ])
+      );
+
+    return { counters: copy(counters), histograms: copy(histograms) };
+  };
+
+  const render = () => {
+    const lines: string[] = [];
+
+    for (const [name, help] of Object.entries(COUNTERS)) {
+      const samples = counters.get(name);
+      if (!samples) continue;
+
+      lines.push(`# HELP ${prefix}${name} ${help}`, `# TYPE ${prefix}${name} counter`);
+      for (const { labels, value } of samples.values()) {
+        lines.push(`${prefix}${name}${formatLabels(labels)} ${value}`);
+      }
+    }
+
+    for (const [name, help] of Object.entries(HISTOGRAMS)) {
+      const samples = histograms.get(name);
+      if (!samples) continue;
+
+      lines.push(`# HELP ${prefix}${name} ${help}`, `# TYPE ${prefix}${name} histogram`);
+      for (const { labels, count, sum, buckets } of samples.values()) {
+        for (const { le, count: inBucket } of buckets) {
+          lines.push(`${prefix}${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${inBucket}`);
+        }
+        lines.push(
+          `${prefix}${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+          `${prefix}${name}_sum${formatLabels(labels)} ${sum}`,
+          `${prefix}${name}_count${formatLabels(labels)} ${count}`
+        );
+      }
+    }
+
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  };
+
+  return Object.assign(sink, {
+    render,
+    snapshot,
+    reset() {
+      counters = new Map();
+      histograms = new Map();
+      cancelledRuns.clear();
+    },
+  });
+}
+
+// {a="1",b="2"}, with values escaped as the exposition format requires
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
@@ -0,0 +1,457 @@
+/**
+ * otel.ts
+ * --------
+ * This file turns the engine's **telemetry event stream into OpenTelemetry
+ * spans** and ships them to a collector over OTLP/HTTP (JSON encoding).
+ *
+ * WHY NOT THE OTEL SDK?
+ * ----------------------
+ * The SDK is a large dependency tree that most users of this library don't
+ * need. OTLP/HTTP JSON is a small, stable wire format, so a sink that speaks
+ * it directly works with any collector (OTel Collector, Jaeger, Tempo,
+ * Honeycomb, ...) without adding a dependency.
+ *
+ * SPAN HIERARCHY:
+ * ----------------
+ *    intent <name>                    intent_started → intent_finished
+ *      └─ step <id>                   step_started   → step_finished
+ *           └─ attempt <n>            retry_attempt_started → failed / step end
+ *      └─ compensate <id>             compensation_started → compensation_finished
+ *
+ * Everything else (fallback_triggered, step_routed, timeout_fired,
+ * circuit_state_changed, queue_waited, hedge_*, ...) is recorded as a span
+ * event on the innermost open span. Failures set the span status to ERROR
+ * and add an "exception" event, following the OTel semantic conventions.
+ *
+ * TRACE PROPAGATION:
+ * -------------------
+ * Pass the caller's W3C `traceparent` header through
+ * `runIntent(intent, ctx, { traceparent })` and the intent span becomes a
+ * child of that span, so runs show up inside the HTTP request that started
+ * them.
+ *
+ * USAGE:
+ * -------
+ *    const exporter = createOtlpSpanExporter({
+ *      endpoint: "http://localhost:4318/v1/traces",
+ *      serviceName: "support-bot",
+ *    });
+ *
+ *    await runIntent(intent, { ...ctx, telemetry: exporter }, { traceparent });
+ *    await exporter.shutdown(); // flush before the process exits
+ */
+
+import { randomBytes } from "node:crypto";
+import type { TelemetryEvent, TelemetrySink } from "../types";
+import { ProviderError } from "../utils/error";
+
+export interface OtlpExporterOptions {
+  // full OTLP/HTTP traces URL, e.g. "http://localhost:4318/v1/traces"
+  endpoint: string;
+  // extra request headers (auth tokens for hosted backends)
+  headers?: Record<string, string>;
+  // resource attribute service.name (default "fabricks-ai-reliability-layer")
+  serviceName?: string;
+  resourceAttributes?: Record<string, string | number | boolean>;
+  // finished spans are sent once this many are buffered (default 512)...
+  maxBatchSize?: number;
+  // ...or after this long, whichever comes first (default 5000ms)
+  flushIntervalMs?: number;
+  // called when an export fails; spans of a failed export are dropped.
+  // Whatever onError throws is ignored
+  onError?: (error: unknown) => void;
+  // defaults to the global fetch
+  fetch?: typeof fetch;
+}
+
+export type OtlpSpanExporter = TelemetrySink & {
+  // send every finished span now
+  flush(): Promise<void>;
+  // flush and stop the background timer
+  shutdown(): Promise<void>;
+};
+
+type AttributeValue = string | number | boolean;
+
+interface OtlpAttribute {
+  key: string;
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+}
+
+interface OtlpSpanEvent {
+  name: string;
+  timeUnixNano: string;
+  attributes: OtlpAttribute[];
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  events: OtlpSpanEvent[];
+  status: { code: number; message?: string };
+}
+
+// A span that has started but not ended yet
+interface OpenSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTime: number;
+  attributes: Record<string, AttributeValue>;
+  events: OtlpSpanEvent[];
+}
+
+// Per-run bookkeeping: the intent span plus the step / attempt spans that
+// are currently open (graph intents may have several steps in flight).
+interface RunSpans {
+  intent: OpenSpan;
+  steps: Map<string, OpenSpan>;
+  attempts: Map<string, OpenSpan>;
+  compensations: Map<string, OpenSpan>;
+}
+
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+const SCOPE_NAME = "fabricks-ai-reliability-layer";
+
+export function createOtlpSpanExporter(
+  options: OtlpExporterOptions
+): OtlpSpanExporter {
+  const {
+    endpoint,
+    headers = {},
+    serviceName = "fabricks-ai-reliability-layer",
+    resourceAttributes = {},
+    maxBatchSize = 512,
+    flushIntervalMs = 5000,
+    onError = () => undefined,
+    fetch: fetchImpl = fetch,
+  } = options;
+
+  const runs = new Map<string, RunSpans>();
+  let batch: OtlpSpan[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlight: Promise<void> = Promise.resolve();
+
+  const send = (spans: OtlpSpan[]) => {
+    const body = JSON.stringify({
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toAttributes({
+              "service.name": serviceName,
+              ...resourceAttributes,
+            }),
+          },
+          scopeSpans: [{ scope: { name: SCOPE_NAME }, spans }],
+        },
+      ],
+    });
+
+    return fetchImpl(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+    }).then((response) => {
+      if (!response.ok) {
+        throw new ProviderError(
+          `OTLP export to ${endpoint} failed with HTTP ${response.status}`,
+          "otlp",
+          "provider",
+          { status: response.status }
+        );
+      }
+    });
+  };
+
+  const flush = (): Promise<void> => {
+    clearTimeout(timer);
+    timer = undefined;
+
+    if (batch.length > 0) {
+      const spans = batch;
+      batch = [];
+      // exports go out one at a time, in order; inFlight never rejects, even
+      // when onError throws, or every later export would be skipped
+      inFlight = inFlight
+        .then(() => send(spans))
+        .catch((error: unknown) => {
+          try {
+            onError(error);
+          } catch {
+            // nowhere left to report it
+          }
+        });
+    }
+
+    return inFlight;
+  };
+
+  const finish = (span: OpenSpan, endTime: number, event?: TelemetryEvent) => {
+    const failed = event?.success === false || event?.error !== undefined;
+
+    if (event?.error) {
+      span.events.push({
+        name: "exception",
+        timeUnixNano: toNanos(endTime),
+        attributes: toAttributes({
+          "exception.type": event.error.name,
+          "exception.message": event.error.message,
+          ...(event.error.stack !== undefined && {
+            "exception.stacktrace": event.error.stack,
+          }),
+          ...(event.error.category !== undefined && {
+            "error.category": event.error.category,
+          }),
+        }),
+      });
+    }
+
+    batch.push({
+      traceId: span.traceId,
+      spanId: span.spanId,
+      ...(span.parentSpanId !== undefined && { parentSpanId: span.parentSpanId }),
+      name: span.name,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toNanos(span.startTime),
+      endTimeUnixNano: toNanos(endTime),
+      attributes: toAttributes(span.attributes),
+      events: span.events,
+      status: failed
+        ? { code: STATUS_ERROR, ...(event?.error && { message: event.error.message }) }
+        : { code: STATUS_OK },
+    });
+
+    if (batch.length >= maxBatchSize) {
+      void flush();
+    } else if (timer === undefined) {
+      timer = setTimeout(() => void flush(), flushIntervalMs);
+      // a pending export must not keep the process alive on its own
+      timer.unref?.();
+    }
+  };
+
+  const sink = (event: TelemetryEvent) => {
+    const runId = event.runId;
+    if (runId === undefined) return;
+
+    if (event.type === "intent_started") {
+      const parent = parseTraceparent(event.traceparent);
+
+      runs.set(runId, {
+        intent: {
+          traceId: parent?.traceId ?? randomHex(16),
+          spanId: randomHex(8),
+          parentSpanId: parent?.spanId,
+          name: `intent ${event.intentName}`,
+          startTime: event.timestamp,
+          attributes: {
+            "intent.name": event.intentName,
+            "run.id": runId,
+            ...(event.parentRunId !== undefined && { "run.parent_id": event.parentRunId }),
+            ...(event.correlationId !== undefined && {
+              "correlation.id": event.correlationId,
+            }),
+          },
+          events: [],
+        },
+        steps: new Map(),
+        attempts: new Map(),
+        compensations: new Map(),
+      });
+      return;
+    }
+
+    const run = runs.get(runId);
+    if (!run) return;
+
+    const child = (name: string, parent: OpenSpan, attributes: Record<string, AttributeValue>) => ({
+      traceId: run.intent.traceId,
+      spanId: randomHex(8),
+      parentSpanId: parent.spanId,
+      name,
+      startTime: event.timestamp,
+      attributes,
+      events: [],
+    });
+    const stepId = event.stepId ?? "";
+
+    switch (event.type) {
+      case "intent_finished":
+      case "intent_suspended": {
+        // anything still open (e.g. a step cut off by cancellation) ends here
+        for (const span of [...run.attempts.values(), ...run.steps.values()]) {
+          finish(span, event.timestamp);
+        }
+        if (event.attempts !== undefined) run.intent.attributes["intent.attempts"] = event.attempts;
+        if (event.type === "intent_suspended") run.intent.attributes["intent.suspended"] = true;
+        finish(run.intent, event.timestamp, event);
+        runs.delete(runId);
+        return;
+      }
+
+      case "step_started":
+        run.steps.set(stepId, child(`step ${stepId}`, run.intent, { "step.id": stepId }));
+        return;
+
+      case "step_finished": {
+        const attempt = run.attempts.get(stepId);
+        if (attempt) {
+          run.attempts.delete(stepId);
+          finish(attempt, event.timestamp, event.success === false ? event : undefined);
+        }
+
+        const step = run.steps.get(stepId);
+        if (!step) return;
+        run.steps.delete(stepId);
+        if (event.attempts !== undefined) step.attributes["step.attempts"] = event.attempts;
+        finish(step, event.timestamp, event);
+        return;
+      }
+
+      case "retry_attempt_started": {
+        const parent = run.steps.get(stepId) ?? run.compensations.get(stepId) ?? run.intent;
+        run.attempts.set(
+          stepId,
+          child(`attempt ${event.attempt}`, parent, {
+            "step.id": stepId,
+            "retry.attempt": event.attempt ?? 1,
+          })
+        );
+        return;
+      }
+
+      case "retry_attempt_failed": {
+        const attempt = run.attempts.get(stepId);
+        if (!attempt) return;
+        run.attempts.delete(stepId);
+        if (event.delayMs !== undefined) attempt.attributes["retry.delay_ms"] = event.delayMs;
+        finish(attempt, event.timestamp, event);
+        return;
+      }
+
+      case "compensation_started":
+        run.compensations.set(
+          stepId,
+          child(`compensate ${stepId}`, run.intent, { "step.id": stepId })
+        );
+        return;
+
+      case "compensation_finished": {
+        const attempt = run.attempts.get(stepId);
+        if (attempt) {
+          run.attempts.delete(stepId);
+          finish(attempt, event.timestamp, event.success === false ? event : undefined);
+        }
+
+        const span = run.compensations.get(stepId);
+        if (!span) return;
+        run.compensations.delete(stepId);
+        finish(span, event.timestamp, event);
+        return;
+      }
+
+      default: {
+        const span =
+          run.attempts.get(stepId) ??
+          run.steps.get(stepId) ??
+          run.compensations.get(stepId) ??
+          run.intent;
+        span.events.push({
+          name: event.type,
+          timeUnixNano: toNanos(event.timestamp),
+          attributes: toAttributes(eventAttributes(event)),
+        });
+      }
+    }
+  };
+
+  return Object.assign(sink, {
+    flush,
+    async shutdown() {
+      await flush();
+    },
+  });
+}
+
+// W3C trace context: "00-<32 hex trace id>-<16 hex parent span id>-<flags>"
+function parseTraceparent(
+  header: string | undefined
+): { traceId: string; spanId: string } | undefined {
+  const match = header
+    ?.trim()
+    .match(/^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/);
+  if (!match || match[1] === "ff") return undefined;
+
+  const [, , traceId, spanId] = match;
+  // all-zero ids are invalid per the spec
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined;
+
+  return { traceId, spanId };
+}
+
+// Whatever a span event should carry besides its name
+function eventAttributes(event: TelemetryEvent): Record<string, AttributeValue> {
+  const attributes: Record<string, AttributeValue> = {};
+  const copy: [keyof TelemetryEvent, string][] = [
+    ["stepId", "step.id"],
+    ["attempt", "retry.attempt"],
+    ["fallbackStepId", "fallback.step_id"],
+    ["tier", "fallback.tier"],
+    ["nextStepId", "route.next_step_id"],
+    ["reason", "route.reason"],
+    ["routeKey", "route.key"],
+    ["circuit", "circuit.name"],
+    ["circuitState", "circuit.state"],
+    ["previousCircuitState", "circuit.previous_state"],
+    ["limiter", "limiter.name"],
+    ["queueWaitMs", "limiter.queue_wait_ms"],
+    ["hedge", "hedge.index"],
+    ["durationMs", "duration_ms"],
+  ];
+
+  for (const [field, key] of copy) {
+    const value = event[field];
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+      attributes[key] = value;
+    }
+  }
+
+  if (event.error) {
+    attributes["exception.type"] = event.error.name;
+    attributes["exception.message"] = event.error.message;
+  }
+
+  return attributes;
+}
+
+function toAttributes(values: Record<string, AttributeValue>): OtlpAttribute[] {
+  return Object.entries(values).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "boolean"
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? // OTLP JSON encodes 64-bit ints as strings
+              { intValue: String(value) }
+            : { doubleValue: value },
+  }));
+}
+
+function toNanos(ms: number): string {
+  return `${Math.round(ms)}000000`;
+}
+
+function randomHex(bytes: number): string {
+  return randomBytes(bytes).toString("hex");
+}
@@ -58,8 +58,11 @@
  * MVP BEHAVIOR (CURRENT SCOPE):
  * ------------------------------
  * - Retry: Simple linear retry with no jitter/backoff required at first.
- * - Timeout: Promise.race between step.run and a timeout promise.
+ * - Timeout: Promise.race between step.run and a timeout promise; the step's
+ *   AbortSignal is aborted when the timer fires so the work actually stops.
  * - Fallback: Only runs if step.run throws.
+ * - Deadline: an absolute cut-off shared by every step of a run; timeouts and
+ *   retry loops never extend past it.
  *
  * This meets the v1 scope for your AI Reliability Layer and is enough to
  * outperform 99% of new-grad SWE portfolio projects.
@@ -114,46 +117,199 @@
 
 export interface RetryPolicy {
     maxAttemps: number;
+    // wait before the 2nd attempt (default 0: retry immediately)
+    initialDelayMs?: number;
+    // upper bound for any single wait, applied before jitter. Also caps
+    // the wait an error asks for (see RetryDelayHint)
+    maxDelayMs?: number;
+    // "fixed" waits initialDelayMs every time; "exponential" (default)
+    // doubles it after each failed attempt
+    backoff?: "fixed" | "exponential";
+    // randomize the wait so many clients don't retry in lockstep:
+    // "full" → [0, delay], "equal" → [delay / 2, delay], "none" (default)
+    jitter?: "none" | "full" | "equal";
+    // return false for errors that will never succeed (validation, auth);
+    // they are thrown as-is without further attempts
+    retryOn?: (error: unknown, attempt: number) => boolean;
 }
 
+// Source of time for the policy helpers. Tests inject a fake one so backoff
+// delays don't actually have to elapse.
+export interface Clock {
+  now(): number;
+  // resolves after `ms`, or rejects with `signal.reason` if it aborts first
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) =>
+    new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }),
+};
+
 import { TelemetrySink} from "../types";
+import { wrapMethods } from "../internal";
+import {
+  IntentConfigurationError,
+  ReliabilityError,
+  categoryOf,
+  retryDelayHintOf,
+  serializeError,
+} from "../utils/error";
 
-export class TimeOutError extends Error {
+export class TimeOutError extends ReliabilityError {
   constructor(message = "Operation Timed out"){
-  super(message);
+  super(message, "timeout");
   this.name = "TimeOutError";
   }
 }
-export class RetryExhaustedError extends Error {
-  constructor(message = "No More Retry Attempts Left"){
-  super(message);
+// One failed attempt inside runWithRetry.
+export interface RetryAttempt {
+  attempt: number;
+  error: unknown;
+  startedAt: number;
+  durationMs: number;
+}
+
+export class RetryExhaustedError extends ReliabilityError {
+  // every failed attempt, oldest first
+  attempts: RetryAttempt[];
+  // `cause` is the last attempt's error; category follows it
+  constructor(
+    message = "No More Retry Attempts Left",
+    cause?: unknown,
+    attempts: RetryAttempt[] = []
+  ){
+  super(message, categoryOf(cause), cause);
   this.name = "RetryExhaustError";
+  this.attempts = attempts;
+  }
+}
+export class CancelledError extends ReliabilityError {
+  // `cause` is whatever the caller passed to AbortController.abort(), if anything
+  constructor(message = "Operation was cancelled", cause?: unknown){
+  super(message, "user", cause);
+  this.name = "CancelledError";
+  }
+}
+
+export class DeadlineExceededError extends ReliabilityError {
+  // `cause` is the last error the step hit before the budget ran out, if any
+  constructor(message = "Deadline exceeded", cause?: unknown){
+  super(message, "timeout", cause);
+  this.name = "DeadlineExceededError";
+  }
+}
+
+// Optional knobs shared by the policy helpers. Kept in an options object so
+// the positional (telemetry, intentName, stepId) signature stays stable.
+export interface PolicyOptions {
+  // aborting this signal stops the wrapped work and any further attempts;
+  // the helper rejects with `signal.reason`
+  signal?: AbortSignal;
+  // absolute time (epoch ms) by which the work must be done; timeouts and
+  // retry loops are clamped to it and fail with DeadlineExceededError
+  deadline?: number;
+  // defaults to systemClock
+  clock?: Clock;
+  // random source for jitter, in [0, 1); defaults to Math.random
+  random?: () => number;
+}
+
+// Wait before the attempt after `attempt` failed (attempt is 1-based).
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const initial = Math.max(0, policy.initialDelayMs ?? 0);
+  const exponential = (policy.backoff ?? "exponential") === "exponential";
+  const base = exponential ? initial * 2 ** (attempt - 1) : initial;
+  const delay = Math.min(base, policy.maxDelayMs ?? Infinity);
+
+  switch (policy.jitter ?? "none") {
+    case "full":
+      return Math.round(random() * delay);
+    case "equal":
+      return Math.round(delay / 2 + random() * (delay / 2));
+    default:
+      return delay;
   }
 }
 
+function deadlineError(intentName?: string, stepId?: string, cause?: unknown) {
+  return new DeadlineExceededError(
+    intentName && stepId
+      ? `Step "${stepId}" in intent "${intentName}" ran out of deadline budget`
+      : "Deadline exceeded",
+    cause
+  );
+}
+
 export async function runWithRetry<T>(
   fn: () => Promise<T>,
   telemetry?: TelemetrySink,
   intentName?: string,
   stepId?: string,
   policy?: RetryPolicy,
+  options: PolicyOptions = {},
 ): Promise<T> {
   
-  
+  const { signal, deadline, clock = systemClock, random } = options;
   const maxAttempts =
     policy && policy.maxAttemps > 0 ? policy.maxAttemps : 1;
   
   let lastError: unknown;
+  const failures: RetryAttempt[] = [];
+  // Stopping early (retryOn, deadline, shed load) after several attempts
+  // still reports all of them, with the error that ended the loop as cause
+  const giveUp = (error: unknown) => {
+    if (failures.length < 2) return error;
+
+    const message =
+      intentName && stepId
+        ? `Step "${stepId}" in intent "${intentName}" gave up after ${failures.length} attempts`
+        : `Operation gave up after ${failures.length} attempts`;
+    return new RetryExhaustedError(message, error, failures);
+  };
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    // A cancelled run never starts another attempt
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+
+    // ...and never starts one it has no budget left for
+    if (deadline !== undefined && clock.now() >= deadline) {
+      throw giveUp(deadlineError(intentName, stepId, lastError));
+    }
+
     // Emit telemetry for retry attempt start
     
+    const startedAt = clock.now();
+
     telemetry?.({
       type: "retry_attempt_started",
       intentName: intentName ?? "(unknown-intent)",
       stepId,
       attempt,
-      timestamp: Date.now(),
+      timestamp: startedAt,
     });
 
     try {
@@ -161,6 +317,32 @@ export async function runWithRetry<T>(
       return result;
     } catch (error) {
       lastError = error;
+      failures.push({
+        attempt,
+        error,
+        startedAt,
+        durationMs: clock.now() - startedAt,
+      });
+
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+
+      // Deadline overruns and shed load (open circuit, full queue) won't
+      // get better on an immediate retry
+      if (
+        error instanceof DeadlineExceededError ||
+        error instanceof CircuitOpenError ||
+        error instanceof BulkheadFullError ||
+        error instanceof RateLimitExceededError
+      ) {
+        throw giveUp(error);
+      }
+
+      // Errors the policy says are not worth retrying skip straight out
+      if (policy?.retryOn && !policy.retryOn(error, attempt)) {
+        throw giveUp(error);
+      }
 
       if (attempt === maxAttempts) {
         // If we actually had a *real* retry (maxAttempts > 1), wrap in RetryExhaustedError
@@ -170,20 +352,45 @@ export async function runWithRetry<T>(
               ? `Step "${stepId}" in intent "${intentName}" failed retry after ${maxAttempts} attempts`
               : `Operation failed after ${maxAttempts} attempts`;
 
-          throw new RetryExhaustedError(message);
+          throw new RetryExhaustedError(message, lastError, failures);
         }
 
         // No policy / only 1 attempt → propagate original error
         throw lastError;
       }
+      // A provider that says when to come back (Retry-After, rate-limit
+      // reset) knows better than our backoff, unless it asks for longer
+      // than the policy allows
+      let delayMs = computeRetryDelay(policy!, attempt, random);
+      let delaySource = "policy";
+      const hint = retryDelayHintOf(error);
+
+      if (hint && hint.delayMs > delayMs) {
+        delayMs = Math.min(hint.delayMs, policy!.maxDelayMs ?? Infinity);
+        delaySource = hint.source;
+      }
+
+      // Never sleep past the deadline; a wait cut short by it ends at the
+      // deadline check above, with this error as the cause
+      if (deadline !== undefined && clock.now() + delayMs > deadline) {
+        delayMs = Math.max(0, deadline - clock.now());
+        delaySource = "deadline";
+      }
+
       telemetry?.({
         type:"retry_attempt_failed",
         intentName: intentName ?? "(unknown-intent)",
         stepId,
         attempt,
-        error:error,
-        timestamp: Date.now()
+        error: serializeError(error),
+        delayMs,
+        delaySource,
+        timestamp: clock.now()
       });
+
+      if (delayMs > 0) {
+        await clock.sleep(delayMs, signal);
+      }
     }
   }
 
@@ -191,66 +398,836 @@ export async function runWithRetry<T>(
 }
 
 export async function runWithTimeout<T>(
-  fn: () => Promise<T>,
+  fn: (signal: AbortSignal) => Promise<T>,
   timeoutMs?: number,
   telemetry?: TelemetrySink,
   intentName?: string,
-  stepId?: string
+  stepId?: string,
+  options: PolicyOptions = {},
 ): Promise<T> {
-  // If no timeout or invalid timeout, just run the function directly
-  if (timeoutMs == null || timeoutMs <= 0) {
-    return fn();
+  const { signal: parentSignal, deadline, clock = systemClock } = options;
+
+  if (parentSignal?.aborted) {
+    throw parentSignal.reason;
+  }
+
+  const remaining = deadline === undefined ? Infinity : deadline - clock.now();
+
+  if (remaining <= 0) {
+    throw deadlineError(intentName, stepId);
   }
 
-  const now = () => Date.now();
+  // Every call gets its own controller: it is aborted when the timer fires or
+  // the parent signal aborts, so cooperative work (fetch, child steps) stops
+  // instead of running on in the background.
+  const controller = new AbortController();
+  const hasTimeout = timeoutMs != null && timeoutMs > 0;
+  // The step's own timeout, clamped to whatever deadline budget is left
+  const clamped = remaining < (hasTimeout ? timeoutMs! : Infinity);
+
+  // If no timeout and nothing to cancel, just run the function directly
+  if (!hasTimeout && !clamped && !parentSignal) {
+    return fn(controller.signal);
+  }
+
+  const now = () => clock.now();
   const message = intentName && stepId ? `Step "${stepId}" in intent "${intentName}" timed out after ${timeoutMs}ms`
     : `Operation timed out after ${timeoutMs}ms`;
   const error = new TimeOutError(message);
     const safeIntentName = intentName ?? "(unknown-intent)";
 
   // timeout_started
-  telemetry?.({
-    type: "timeout_started",
-    intentName: safeIntentName,
-    stepId,
-    timestamp: now(),
-  });
+  if (hasTimeout) {
+    telemetry?.({
+      type: "timeout_started",
+      intentName: safeIntentName,
+      stepId,
+      timestamp: now(),
+    });
+  }
 
   return new Promise<T>((resolve, reject) => {
-    const timer = setTimeout(() => {
-      // timeout_fired
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // stops the deadline wait once the call settles
+    const deadlineTimer = new AbortController();
+
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      deadlineTimer.abort();
+      parentSignal?.removeEventListener("abort", onParentAbort);
+      finish();
+    };
+
+    const onParentAbort = () => {
+      controller.abort(parentSignal!.reason);
+      settle(() => reject(parentSignal!.reason));
+    };
+
+    parentSignal?.addEventListener("abort", onParentAbort, { once: true });
+
+    if (clamped) {
+      // the deadline is measured by the run's clock, like the retry loop's
+      // and the bulkhead queue's waits
+      clock.sleep(remaining, deadlineTimer.signal).then(
+        () => {
+          const exceeded = deadlineError(intentName, stepId);
+          controller.abort(exceeded);
+          settle(() => reject(exceeded));
+        },
+        // settled first
+        () => undefined
+      );
+    } else if (hasTimeout) {
+      timer = setTimeout(() => {
+        // timeout_fired
+        telemetry?.({
+          type: "timeout_fired",
+          intentName: safeIntentName,
+          stepId,
+          timestamp: now(),
+        });
+
+        controller.abort(error);
+        settle(() => reject(error));
+      }, timeoutMs);
+    }
+
+    const cleared = () => {
+      // timeout_cleared
+      if (!hasTimeout) return;
       telemetry?.({
-        type: "timeout_fired",
+        type: "timeout_cleared",
         intentName: safeIntentName,
         stepId,
         timestamp: now(),
       });
+    };
 
-      reject(error);
-    }, timeoutMs);
-
-    fn()
+    fn(controller.signal)
       .then((result) => {
-        clearTimeout(timer);
-        // timeout_cleared
-        telemetry?.({
-          type: "timeout_cleared",
-          intentName: safeIntentName,
-          stepId,
-          timestamp: now(),
+        settle(() => {
+          cleared();
+          resolve(result);
         });
-        resolve(result);
       })
       .catch((err) => {
+        settle(() => {
+          cleared();
+          reject(err);
+        });
+      });
+  });
+}
+
+/**
+ * Reads a streamed step result to the end, handing each chunk to `onChunk`
+ * as it arrives. `idleTimeoutMs` bounds the wait for every chunk (the first
+ * one included), so a stream that stalls fails with TimeOutError even when
+ * the step's overall timeoutMs is generous. An aborted signal stops reading
+ * as well; either way the stream is closed through its iterator's return().
+ * When `onChunk` returns a promise, the next chunk isn't requested until it
+ * settles (that wait doesn't count as idle time).
+ */
+export async function readStream<T>(
+  stream: AsyncIterable<T>,
+  onChunk: (chunk: T, index: number) => void | Promise<void>,
+  idleTimeoutMs?: number,
+  telemetry?: TelemetrySink,
+  intentName?: string,
+  stepId?: string,
+  options: PolicyOptions = {},
+): Promise<T[]> {
+  const { signal, clock = systemClock } = options;
+  const iterator = stream[Symbol.asyncIterator]();
+  const chunks: T[] = [];
+  const hasIdleTimeout = idleTimeoutMs != null && idleTimeoutMs > 0;
+
+  const nextChunk = () =>
+    new Promise<IteratorResult<T>>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const onAbort = () => finish(() => reject(signal!.reason));
+      const finish = (settle: () => void) => {
         clearTimeout(timer);
-        // timeout_cleared
+        signal?.removeEventListener("abort", onAbort);
+        settle();
+      };
+
+      if (signal?.aborted) return reject(signal.reason);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      if (hasIdleTimeout) {
+        timer = setTimeout(() => {
+          telemetry?.({
+            type: "timeout_fired",
+            intentName: intentName ?? "(unknown-intent)",
+            stepId,
+            timestamp: clock.now(),
+          });
+          finish(() =>
+            reject(
+              new TimeOutError(
+                intentName && stepId
+                  ? `Step "${stepId}" in intent "${intentName}" produced no output for ${idleTimeoutMs}ms`
+                  : `Stream produced no output for ${idleTimeoutMs}ms`
+              )
+            )
+          );
+        }, idleTimeoutMs);
+      }
+
+      iterator.next().then(
+        (result) => finish(() => resolve(result)),
+        (error) => finish(() => reject(error))
+      );
+    });
+
+  try {
+    for (;;) {
+      const { done, value } = await nextChunk();
+      if (done) return chunks;
+
+      chunks.push(value);
+      await onChunk(value, chunks.length - 1);
+    }
+  } catch (error) {
+    // Let the producer clean up (close the HTTP response, ...). Its return()
+    // may wait on the stalled next(), so don't wait for it.
+    void Promise.resolve(iterator.return?.()).catch(() => undefined);
+    throw error;
+  }
+}
+
+export interface HedgePolicy {
+  // start another attempt if none has finished after this long
+  afterMs: number;
+  // extra attempts at most (default 1); each waits another afterMs
+  maxHedges?: number;
+}
+
+/**
+ * Hedged requests: when the first attempt is slow, race it against a fresh
+ * one instead of waiting on the long tail. The first attempt to succeed wins
+ * and every other one is aborted through its signal. Failures don't trigger
+ * hedges (that is runWithRetry's job); the call fails once every attempt
+ * that was started has failed. `fn` is told which attempt of the race it is
+ * (0 = the original).
+ */
+export async function runWithHedge<T>(
+  fn: (signal: AbortSignal, hedge: number) => Promise<T>,
+  policy?: HedgePolicy,
+  telemetry?: TelemetrySink,
+  intentName?: string,
+  stepId?: string,
+  options: PolicyOptions = {},
+): Promise<T> {
+  const { signal: parentSignal, clock = systemClock } = options;
+
+  if (!policy) {
+    return fn(parentSignal ?? new AbortController().signal, 0);
+  }
+
+  if (parentSignal?.aborted) {
+    throw parentSignal.reason;
+  }
+
+  const maxHedges = policy.maxHedges ?? 1;
+  const safeIntentName = intentName ?? "(unknown-intent)";
+  const attempts: AbortController[] = [];
+  // stops the hedge timer once the race is decided
+  const timer = new AbortController();
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    let pending = 0;
+
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      timer.abort();
+      parentSignal?.removeEventListener("abort", onParentAbort);
+      finish();
+    };
+
+    const onParentAbort = () => {
+      for (const attempt of attempts) attempt.abort(parentSignal!.reason);
+      settle(() => reject(parentSignal!.reason));
+    };
+
+    parentSignal?.addEventListener("abort", onParentAbort, { once: true });
+
+    const launch = () => {
+      const hedge = attempts.length;
+      const controller = new AbortController();
+      attempts.push(controller);
+      pending++;
+
+      if (hedge > 0) {
         telemetry?.({
-          type: "timeout_cleared",
+          type: "hedge_started",
           intentName: safeIntentName,
           stepId,
-          timestamp: now(),
+          hedge,
+          timestamp: clock.now(),
         });
-        reject(err);
-      });
+      }
+
+      fn(controller.signal, hedge).then(
+        (result) => {
+          if (settled) return;
+
+          for (const other of attempts) {
+            if (other === controller) continue;
+            other.abort(
+              new CancelledError(
+                `Hedged attempt of step "${stepId}" lost to attempt ${hedge}`
+              )
+            );
+          }
+
+          if (attempts.length > 1) {
+            telemetry?.({
+              type: "hedge_won",
+              intentName: safeIntentName,
+              stepId,
+              hedge,
+              timestamp: clock.now(),
+            });
+          }
+
+          settle(() => resolve(result));
+        },
+        (error) => {
+          pending--;
+          if (pending === 0) settle(() => reject(error));
+        }
+      );
+    };
+
+    const scheduleHedge = () => {
+      clock.sleep(policy.afterMs, timer.signal).then(
+        () => {
+          if (settled) return;
+          launch();
+          if (attempts.length <= maxHedges) scheduleHedge();
+        },
+        // the race was decided before the timer fired
+        () => undefined
+      );
+    };
+
+    launch();
+    if (maxHedges > 0) scheduleHedge();
   });
 }
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  // identifies the breaker in errors and telemetry (e.g. "openai")
+  name?: string;
+  // failure rate (0–1) within the window that opens the circuit
+  failureRateThreshold?: number;
+  // calls needed in the window before the failure rate is trusted
+  minimumCalls?: number;
+  // how far back (ms) calls count towards the failure rate
+  windowMs?: number;
+  // how long an open circuit rejects calls before letting a trial through
+  cooldownMs?: number;
+  // concurrent trial calls allowed while half-open
+  halfOpenMaxCalls?: number;
+  // which errors count against the provider. By default cancellations and
+  // deadline overruns (and full bulkhead / rate-limit queues) don't: they
+  // say nothing about the provider's health.
+  isFailure?: (error: unknown) => boolean;
+  // receives circuit_state_changed events for calls that don't come with a
+  // sink of their own (e.g. a breaker wrapped around a provider client)
+  telemetry?: TelemetrySink;
+  clock?: Clock;
+}
+
+// Thrown (without calling the wrapped function) while a circuit is open.
+// runWithRetry never retries it; a step's fallbackTo still applies.
+export class CircuitOpenError extends ReliabilityError {
+  circuit: string;
+  // time until the breaker lets a trial call through
+  retryAfterMs: number;
+  constructor(circuit: string, retryAfterMs: number){
+  super(`Circuit "${circuit}" is open; retry in ${retryAfterMs}ms`, "provider");
+  this.name = "CircuitOpenError";
+  this.circuit = circuit;
+  this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Fails fast when a dependency keeps failing, instead of every run spending
+ * its whole retry budget on it.
+ *
+ * One instance is meant to be shared: attach the same breaker to every step
+ * (or provider client) that talks to the same dependency, across runs.
+ *
+ *   closed    → calls pass through; outcomes are recorded in a rolling window
+ *   open      → calls fail with CircuitOpenError until cooldownMs has passed
+ *   half-open → up to halfOpenMaxCalls trial calls; a success closes the
+ *               circuit, a failure opens it again
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private readonly options: CircuitBreakerOptions;
+  private readonly clock: Clock;
+  private current: CircuitState = "closed";
+  private openedAt = 0;
+  private trialsInFlight = 0;
+  private calls: { at: number; failed: boolean }[] = [];
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.name = options.name ?? "circuit";
+    this.options = options;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  get state(): CircuitState {
+    return this.current;
+  }
+
+  async execute<T>(
+    fn: () => Promise<T>,
+    telemetry?: TelemetrySink,
+    intentName?: string,
+    stepId?: string,
+  ): Promise<T> {
+    const sink = telemetry ?? this.options.telemetry;
+    const transition = (next: CircuitState) =>
+      this.transition(next, sink, intentName, stepId);
+    const cooldownMs = this.options.cooldownMs ?? 30_000;
+
+    if (this.current === "open") {
+      const waited = this.clock.now() - this.openedAt;
+
+      if (waited < cooldownMs) {
+        throw new CircuitOpenError(this.name, cooldownMs - waited);
+      }
+
+      transition("half-open");
+    }
+
+    const trial = this.current === "half-open";
+
+    if (trial) {
+      if (this.trialsInFlight >= (this.options.halfOpenMaxCalls ?? 1)) {
+        throw new CircuitOpenError(this.name, 0);
+      }
+      this.trialsInFlight++;
+    }
+
+    try {
+      const result = await fn();
+
+      if (trial) {
+        this.trialsInFlight--;
+        if (this.current === "half-open") transition("closed");
+      } else {
+        this.record(false);
+      }
+
+      return result;
+    } catch (error) {
+      const isFailure = this.options.isFailure ?? defaultIsFailure;
+      const failed = isFailure(error);
+
+      if (trial) {
+        this.trialsInFlight--;
+        if (failed && this.current === "half-open") transition("open");
+      } else if (failed) {
+        this.record(true);
+        if (this.current === "closed" && this.shouldOpen()) transition("open");
+      }
+
+      throw error;
+    }
+  }
+
+  private record(failed: boolean) {
+    const now = this.clock.now();
+    const windowMs = this.options.windowMs ?? 60_000;
+    this.calls = this.calls.filter((call) => now - call.at < windowMs);
+    this.calls.push({ at: now, failed });
+  }
+
+  private shouldOpen() {
+    const minimumCalls = this.options.minimumCalls ?? 5;
+    if (this.calls.length < minimumCalls) return false;
+    const failures = this.calls.filter((call) => call.failed).length;
+    return failures / this.calls.length >= (this.options.failureRateThreshold ?? 0.5);
+  }
+
+  private transition(
+    next: CircuitState,
+    telemetry?: TelemetrySink,
+    intentName?: string,
+    stepId?: string,
+  ) {
+    const previous = this.current;
+    if (previous === next) return;
+
+    this.current = next;
+    if (next === "open") this.openedAt = this.clock.now();
+    // a closed circuit starts with a clean slate
+    if (next === "closed") this.calls = [];
+
+    telemetry?.({
+      type: "circuit_state_changed",
+      intentName: intentName ?? "(unknown-intent)",
+      stepId,
+      circuit: this.name,
+      circuitState: next,
+      previousCircuitState: previous,
+      timestamp: this.clock.now(),
+    });
+  }
+}
+
+function defaultIsFailure(error: unknown) {
+  return !(
+    error instanceof CancelledError ||
+    error instanceof DeadlineExceededError ||
+    error instanceof BulkheadFullError ||
+    error instanceof RateLimitExceededError
+  );
+}
+
+// Route every method of a provider client (e.g. createOpenAIProvider()) through
+// a breaker, so all callers of that client share its circuit.
+export function withCircuitBreaker<Client extends object>(
+  client: Client,
+  breaker: CircuitBreaker,
+): Client {
+  return wrapMethods(client, (call) => breaker.execute(call));
+}
+
+// Limits are checked when a bulkhead / rate limiter is built, the same way
+// defineIntent checks an intent
+function checkLimit(
+  owner: string,
+  option: string,
+  value: number,
+  { integer = false } = {},
+) {
+  if (
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    value <= 0 ||
+    (integer && !Number.isInteger(value))
+  ) {
+    throw new IntentConfigurationError(
+      `${owner}: ${option} must be a positive ${integer ? "integer" : "number"}`,
+    );
+  }
+}
+
+// maxQueued may be 0 (never queue) or left out (unbounded)
+function checkQueueLimit(owner: string, maxQueued: number | undefined) {
+  if (
+    maxQueued !== undefined &&
+    (typeof maxQueued !== "number" || !(maxQueued >= 0) || !Number.isInteger(maxQueued))
+  ) {
+    throw new IntentConfigurationError(
+      `${owner}: maxQueued must be a non-negative integer`,
+    );
+  }
+}
+
+export interface BulkheadOptions {
+  name?: string;
+  // calls allowed to run at the same time
+  maxConcurrent: number;
+  // calls allowed to wait for a slot (default: unbounded); beyond that,
+  // execute() rejects with BulkheadFullError
+  maxQueued?: number;
+  // receives queue_waited events for calls without a sink of their own
+  telemetry?: TelemetrySink;
+  clock?: Clock;
+}
+
+export class BulkheadFullError extends ReliabilityError {
+  limiter: string;
+  maxConcurrent: number;
+  maxQueued: number;
+  constructor(limiter: string, maxConcurrent: number, maxQueued: number){
+  super(
+    `Bulkhead "${limiter}" is full (${maxConcurrent} running, ${maxQueued} queued)`,
+    "rate_limit"
+  );
+  this.name = "BulkheadFullError";
+  this.limiter = limiter;
+  this.maxConcurrent = maxConcurrent;
+  this.maxQueued = maxQueued;
+  }
+}
+
+/**
+ * Caps how many calls run concurrently; the rest wait in a FIFO queue.
+ * Share one instance between everything that talks to the same dependency.
+ */
+export class Bulkhead {
+  readonly name: string;
+  private readonly options: BulkheadOptions;
+  private readonly clock: Clock;
+  private active = 0;
+  private readonly queue: (() => void)[] = [];
+
+  constructor(options: BulkheadOptions) {
+    this.name = options.name ?? "bulkhead";
+    // 0 would park every call forever
+    checkLimit(`Bulkhead "${this.name}"`, "maxConcurrent", options.maxConcurrent, { integer: true });
+    checkQueueLimit(`Bulkhead "${this.name}"`, options.maxQueued);
+    this.options = options;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  get activeCount(): number {
+    return this.active;
+  }
+
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  async execute<T>(
+    fn: () => Promise<T>,
+    telemetry?: TelemetrySink,
+    intentName?: string,
+    stepId?: string,
+    options: PolicyOptions = {},
+  ): Promise<T> {
+    const { maxConcurrent } = this.options;
+    const maxQueued = this.options.maxQueued ?? Infinity;
+
+    if (this.active < maxConcurrent) {
+      this.active++;
+    } else {
+      if (this.queue.length >= maxQueued) {
+        throw new BulkheadFullError(this.name, maxConcurrent, maxQueued);
+      }
+
+      const queuedAt = this.clock.now();
+      // a released slot is handed straight to us, so `active` is unchanged
+      await this.waitForSlot(intentName, stepId, options);
+
+      (telemetry ?? this.options.telemetry)?.({
+        type: "queue_waited",
+        intentName: intentName ?? "(unknown-intent)",
+        stepId,
+        limiter: this.name,
+        queueWaitMs: this.clock.now() - queuedAt,
+        timestamp: this.clock.now(),
+      });
+    }
+
+    try {
+      return await fn();
+    } finally {
+      const next = this.queue.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+
+  private waitForSlot(
+    intentName: string | undefined,
+    stepId: string | undefined,
+    { signal, deadline }: PolicyOptions,
+  ) {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      // stops the deadline wait once the call leaves the queue
+      const timer = new AbortController();
+
+      const leave = () => {
+        timer.abort();
+        signal?.removeEventListener("abort", onAbort);
+        const index = this.queue.indexOf(grant);
+        if (index !== -1) this.queue.splice(index, 1);
+      };
+      const grant = () => {
+        leave();
+        resolve();
+      };
+      const onAbort = () => {
+        leave();
+        reject(signal!.reason);
+      };
+
+      this.queue.push(grant);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      if (deadline !== undefined) {
+        this.clock.sleep(Math.max(0, deadline - this.clock.now()), timer.signal).then(
+          () => {
+            leave();
+            reject(deadlineError(intentName, stepId));
+          },
+          // got a slot (or was aborted) first
+          () => undefined
+        );
+      }
+    });
+  }
+}
+
+export interface RateLimiterOptions {
+  name?: string;
+  // sustained rate the bucket refills at
+  tokensPerSecond: number;
+  // bucket size, i.e. how many calls may go out back to back
+  // (default: one second's worth of tokens)
+  burst?: number;
+  // calls allowed to wait for a token (default: unbounded); beyond that,
+  // execute() rejects with RateLimitExceededError
+  maxQueued?: number;
+  // receives queue_waited events for calls without a sink of their own
+  telemetry?: TelemetrySink;
+  clock?: Clock;
+}
+
+export class RateLimitExceededError extends ReliabilityError {
+  limiter: string;
+  // roughly when a token would have been available
+  retryAfterMs: number;
+  constructor(limiter: string, retryAfterMs: number){
+  super(
+    `Rate limiter "${limiter}" queue is full; next token in ${retryAfterMs}ms`,
+    "rate_limit"
+  );
+  this.name = "RateLimitExceededError";
+  this.limiter = limiter;
+  this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Token bucket: each call takes one token, tokens refill at
+ * `tokensPerSecond` up to `burst`. Callers that find the bucket empty reserve
+ * the next token and sleep until it is due, so waiters are served in order.
+ */
+export class RateLimiter {
+  readonly name: string;
+  private readonly options: RateLimiterOptions;
+  private readonly clock: Clock;
+  private readonly burst: number;
+  private tokens: number;
+  private refilledAt: number;
+  private waiting = 0;
+
+  constructor(options: RateLimiterOptions) {
+    this.name = options.name ?? "rate-limiter";
+    // a zero rate would mean an infinite wait for the next token
+    checkLimit(`RateLimiter "${this.name}"`, "tokensPerSecond", options.tokensPerSecond);
+    if (options.burst !== undefined) {
+      checkLimit(`RateLimiter "${this.name}"`, "burst", options.burst, { integer: true });
+    }
+    checkQueueLimit(`RateLimiter "${this.name}"`, options.maxQueued);
+    this.options = options;
+    this.clock = options.clock ?? systemClock;
+    this.burst = options.burst ?? Math.max(1, options.tokensPerSecond);
+    this.tokens = this.burst;
+    this.refilledAt = this.clock.now();
+  }
+
+  get queuedCount(): number {
+    return this.waiting;
+  }
+
+  async execute<T>(
+    fn: () => Promise<T>,
+    telemetry?: TelemetrySink,
+    intentName?: string,
+    stepId?: string,
+    options: PolicyOptions = {},
+  ): Promise<T> {
+    await this.acquire(telemetry ?? this.options.telemetry, intentName, stepId, options);
+    return fn();
+  }
+
+  private async acquire(
+    telemetry: TelemetrySink | undefined,
+    intentName: string | undefined,
+    stepId: string | undefined,
+    { signal, deadline }: PolicyOptions,
+  ) {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+
+    this.refill();
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return;
+    }
+
+    const waitMs = Math.ceil(((1 - this.tokens) * 1000) / this.options.tokensPerSecond);
+
+    if (this.waiting >= (this.options.maxQueued ?? Infinity)) {
+      throw new RateLimitExceededError(this.name, waitMs);
+    }
+
+    if (deadline !== undefined && this.clock.now() + waitMs >= deadline) {
+      throw deadlineError(intentName, stepId);
+    }
+
+    // reserve the token now (the bucket may go negative) so later callers
+    // queue up behind this one
+    this.tokens -= 1;
+    this.waiting++;
+
+    try {
+      await this.clock.sleep(waitMs, signal);
+    } catch (error) {
+      // give back the reservation of a caller that stopped waiting
+      this.tokens += 1;
+      throw error;
+    } finally {
+      this.waiting--;
+    }
+
+    telemetry?.({
+      type: "queue_waited",
+      intentName: intentName ?? "(unknown-intent)",
+      stepId,
+      limiter: this.name,
+      queueWaitMs: waitMs,
+      timestamp: this.clock.now(),
+    });
+  }
+
+  private refill() {
+    const now = this.clock.now();
+    const refilled = ((now - this.refilledAt) / 1000) * this.options.tokensPerSecond;
+    this.tokens = Math.min(this.burst, this.tokens + refilled);
+    this.refilledAt = now;
+  }
+}
+
+// Same as withCircuitBreaker, for concurrency and rate limits.
+export function withBulkhead<Client extends object>(
+  client: Client,
+  bulkhead: Bulkhead,
+): Client {
+  return wrapMethods(client, (call) => bulkhead.execute(call));
+}
+
+export function withRateLimiter<Client extends object>(
+  client: Client,
+  limiter: RateLimiter,
+): Client {
+  return wrapMethods(client, (call) => limiter.execute(call));
+}
@@ -70,6 +70,25 @@
  *    ✔ telemetry can evolve independently
  *    ✔ users can plug in their own sinks
  *
+ * COMPOSING SINKS:
+ * -----------------
+ * runIntent takes a single sink. These helpers build one out of several:
+ *
+ *    const telemetry = combineSinks(
+ *      consoleTelemetrySink,
+ *      metrics,
+ *      sampleSink(batchingSink(shipToLoki), 0.1, { keepErrors: true }),
+ *    );
+ *
+ *    - combineSinks(...sinks)           → fan out to every sink
+ *    - filterSink(sink, predicate)      → only events the predicate accepts
+ *    - sampleSink(sink, rate, options)  → keep a fraction of runs
+ *    - batchingSink(exportBatch, opts)  → buffer events, export them async
+ *
+ * A sink that throws (or returns a rejected promise) is isolated: the error
+ * is swallowed and the run continues. batchingSink never blocks the run —
+ * when its buffer is full, new events are dropped and counted instead.
+ *
  * FUTURE CAPABILITIES (AFTER MVP):
  * ---------------------------------
  *
@@ -119,8 +138,186 @@
  *     **a real orchestration engine with observability baked in.**
  */
 
-import type { TelemetrySink } from "../types";
+import type { TelemetryEvent, TelemetrySink } from "../types";
 
 export const consoleTelemetrySink: TelemetrySink = (event) => {
   console.log("[telemetry]", JSON.stringify(event));
-};
\ No newline at end of file
+};
+// Calls a sink without letting it affect the caller: a throw, or a rejected
+// promise from a sink that was declared async, goes to onError instead.
+export function callSink(
+  sink: TelemetrySink | undefined,
+  event: TelemetryEvent,
+  onError: (error: unknown) => void = () => undefined
+): void {
+  if (!sink) return;
+
+  try {
+    const result: unknown = sink(event);
+    if (result instanceof Promise) result.catch(onError);
+  } catch (error) {
+    onError(error);
+  }
+}
+
+export function combineSinks(
+  ...sinks: (TelemetrySink | undefined)[]
+): TelemetrySink {
+  return (event) => {
+    for (const sink of sinks) callSink(sink, event);
+  };
+}
+
+export function filterSink(
+  sink: TelemetrySink,
+  predicate: (event: TelemetryEvent) => boolean
+): TelemetrySink {
+  return (event) => {
+    let keep = false;
+    try {
+      keep = predicate(event);
+    } catch {
+      // a broken predicate drops the event rather than the run
+    }
+    if (keep) callSink(sink, event);
+  };
+}
+
+export interface SampleSinkOptions {
+  // forward failure events (error set or success false) of unsampled runs too
+  keepErrors?: boolean;
+  random?: () => number;
+}
+
+// Sampling is decided once per run, so a kept run's trace is complete.
+// Events without a runId are sampled one by one.
+export function sampleSink(
+  sink: TelemetrySink,
+  rate: number,
+  options: SampleSinkOptions = {}
+): TelemetrySink {
+  const { keepErrors = false, random = Math.random } = options;
+  const decisions = new Map<string, boolean>();
+
+  return (event) => {
+    let sampled: boolean;
+
+    if (event.runId === undefined) {
+      sampled = random() < rate;
+    } else {
+      sampled = decisions.get(event.runId) ?? random() < rate;
+      decisions.set(event.runId, sampled);
+      // nothing follows these for the run (resumed runs decide again)
+      if (event.type === "intent_finished" || event.type === "intent_suspended") {
+        decisions.delete(event.runId);
+      }
+    }
+
+    const failed = event.error !== undefined || event.success === false;
+    if (sampled || (keepErrors && failed)) callSink(sink, event);
+  };
+}
+
+export interface BatchingSinkOptions {
+  // events per exportBatch call (default 100)
+  maxBatchSize?: number;
+  // events held while exports are slow; beyond this new events are dropped
+  // (default 10000)
+  maxBuffered?: number;
+  // buffered events are exported after at most this long (default 1000ms);
+  // they are also exported as soon as a run finishes or suspends
+  flushIntervalMs?: number;
+  // called when exportBatch fails; that batch's events are counted as failed.
+  // Whatever onError throws is ignored
+  onError?: (error: unknown) => void;
+}
+
+export interface BatchingSinkStats {
+  // accepted but not exported yet
+  buffered: number;
+  exported: number;
+  dropped: number;
+  failed: number;
+}
+
+export type BatchingSink = TelemetrySink & {
+  // export everything buffered so far
+  flush(): Promise<void>;
+  stats(): BatchingSinkStats;
+};
+
+export function batchingSink(
+  exportBatch: (events: TelemetryEvent[]) => void | Promise<void>,
+  options: BatchingSinkOptions = {}
+): BatchingSink {
+  const {
+    maxBatchSize = 100,
+    maxBuffered = 10_000,
+    flushIntervalMs = 1000,
+    onError = () => undefined,
+  } = options;
+
+  let buffer: TelemetryEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlight: Promise<void> = Promise.resolve();
+  const counts = { exported: 0, dropped: 0, failed: 0 };
+
+  // events accepted but not yet exported (buffered or waiting on an export)
+  let pending = 0;
+
+  const send = async (events: TelemetryEvent[]) => {
+    try {
+      await exportBatch(events);
+      counts.exported += events.length;
+    } catch (error) {
+      counts.failed += events.length;
+      // a throwing onError must not reject inFlight: later batches chain on it
+      try {
+        onError(error);
+      } catch {
+        // nowhere left to report it
+      }
+    } finally {
+      pending -= events.length;
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    clearTimeout(timer);
+    timer = undefined;
+
+    while (buffer.length > 0) {
+      const events = buffer.slice(0, maxBatchSize);
+      buffer = buffer.slice(maxBatchSize);
+      // one export at a time, in order; the run never waits on it
+      inFlight = inFlight.then(() => send(events));
+    }
+
+    return inFlight;
+  };
+
+  const sink = (event: TelemetryEvent) => {
+    if (pending >= maxBuffered) {
+      counts.dropped++;
+      return;
+    }
+    buffer.push(event);
+    pending++;
+
+    if (
+      buffer.length >= maxBatchSize ||
+      event.type === "intent_finished" ||
+      event.type === "intent_suspended"
+    ) {
+      void flush();
+    } else if (timer === undefined) {
+      timer = setTimeout(() => void flush(), flushIntervalMs);
+      timer.unref?.();
+    }
+  };
+
+  return Object.assign(sink, {
+    flush,
+    stats: () => ({ buffered: pending, ...counts }),
+  });
+}
@@ -26,23 +26,120 @@
 // module.exports = require("./dist/index.js");
 
 export { defineIntent } from "./core/intent";
-export { runIntent } from "./core/engine";
+export {
+  runIntent,
+  resumeIntent,
+  resumeWithApproval,
+  streamIntent,
+  ApprovalRejectedError,
+} from "./core/engine";
 
 export type{
     Intent,
     IntentConfig,
     StepConfig,
+    StepId,
+    StepOutputs,
     ExecutionContext,
     TelemetryEvent,
     ExecutionResult,
+    RunOptions,
+    ExecutionStatus,
+    ApprovalDecision,
+    SuspendedRun,
+    CompensationRecord,
+    StreamOptions,
+    IntentResultEvent,
+    IntentStreamEvent,
 } from "./types";
 
-export type { RetryPolicy } from "./core/policies";
+export type {
+  RetryPolicy,
+  RetryAttempt,
+  HedgePolicy,
+  Clock,
+  CircuitBreakerOptions,
+  CircuitState,
+  BulkheadOptions,
+  RateLimiterOptions,
+} from "./core/policies";
 
 
 export type { TelemetrySink } from "./types";
-export { consoleTelemetrySink } from "./core/telemetry";
+export {
+  consoleTelemetrySink,
+  combineSinks,
+  filterSink,
+  sampleSink,
+  batchingSink,
+} from "./core/telemetry";
+export type {
+  SampleSinkOptions,
+  BatchingSinkOptions,
+  BatchingSinkStats,
+  BatchingSink,
+} from "./core/telemetry";
+export { createOtlpSpanExporter } from "./core/otel";
+export type { OtlpExporterOptions, OtlpSpanExporter } from "./core/otel";
+export { createMetricsSink } from "./core/metrics";
+export type {
+  MetricsSinkOptions,
+  MetricsSink,
+  MetricsSnapshot,
+  MetricLabels,
+  CounterSample,
+  HistogramSample,
+} from "./core/metrics";
 
-export { TimeOutError, RetryExhaustedError } from "./core/policies";
+export {
+  TimeOutError,
+  RetryExhaustedError,
+  CancelledError,
+  DeadlineExceededError,
+  CircuitOpenError,
+  CircuitBreaker,
+  withCircuitBreaker,
+  BulkheadFullError,
+  Bulkhead,
+  withBulkhead,
+  RateLimitExceededError,
+  RateLimiter,
+  withRateLimiter,
+  systemClock,
+} from "./core/policies";
+
+export {
+  ReliabilityError,
+  IntentConfigurationError,
+  StepExecutionError,
+  FallbackError,
+  ProviderError,
+  categoryOf,
+  retryDelayHintOf,
+  serializeError,
+  deserializeError,
+} from "./utils/error";
+export type {
+  ErrorCategory,
+  ProviderErrorDetails,
+  RetryDelayHint,
+  SerializedError,
+} from "./utils/error";
+
+export {
+  CheckpointError,
+  createMemoryCheckpointStore,
+  createFileCheckpointStore,
+} from "./core/checkpoint";
+export type { Checkpoint, CheckpointStore } from "./core/checkpoint";
 
 export {createOpenAIProvider} from "./providers/openai";
+export type {
+  OpenAIProviderClient,
+  ChatParameters,
+  ChatStream,
+  ChatResult,
+  ChatUsage,
+  OpenAiProviderConfig,
+  OpenAIDebugEvent,
+} from "./types";
@@ -94,4 +94,139 @@
  *
  *   PUBLIC ←→ STABLE  (src/index.ts)
  *   INTERNA*
-*/
\ No newline at end of file
+*/
+
+import { randomUUID } from "node:crypto";
+import type { ChatStream, ExecutionContext, StepId } from "./types";
+
+// Identifier for a single intent run (checkpoints, resume, telemetry).
+export function generateRunId(): string {
+  return randomUUID();
+}
+
+/**
+ * Derive a per-attempt view of a run context (e.g. with its own `signal`).
+ *
+ * Steps are allowed to reassign `ctx.metadata`, and later steps must see that,
+ * so `metadata` on the derived object reads and writes through to the run
+ * context instead of being copied.
+ */
+export function scopeContext<Input>(
+  ctx: ExecutionContext<Input>,
+  overrides: Partial<ExecutionContext<Input>>
+): ExecutionContext<Input> {
+  const scoped: ExecutionContext<Input> = { ...ctx, ...overrides };
+
+  Object.defineProperty(scoped, "metadata", {
+    enumerable: true,
+    configurable: true,
+    get: () => ctx.metadata,
+    set: (value: Record<string, unknown>) => {
+      ctx.metadata = value;
+    },
+  });
+
+  return scoped;
+}
+
+// `fallbackTo` accepts one step id or an ordered list; always work with a list.
+export function fallbackTargets(step: { fallbackTo?: StepId | StepId[] }): StepId[] {
+  const { fallbackTo } = step;
+  if (fallbackTo === undefined) return [];
+  return Array.isArray(fallbackTo) ? fallbackTo : [fallbackTo];
+}
+
+// Copy of `client` whose function-valued properties run through `around`
+// (used to put shared policies in front of provider clients).
+//
+// Methods named `...Stream` (e.g. chatStream) return their stream
+// synchronously; those are wrapped so that `around` covers the whole
+// iteration, not just the call that opened the stream: a bulkhead slot or
+// rate-limit token is held until the stream ends, and an error mid-stream
+// fails the call (and counts against a breaker).
+export function wrapMethods<Client extends object>(
+  client: Client,
+  around: <T>(call: () => Promise<T>) => Promise<T>
+): Client {
+  const wrapped = { ...client } as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(client)) {
+    if (typeof value !== "function") continue;
+    wrapped[key] = key.endsWith("Stream")
+      ? (...args: unknown[]) =>
+          streamAround(() => value.apply(client, args) as ChatStream, around)
+      : (...args: unknown[]) =>
+          around(() => value.apply(client, args) as Promise<unknown>);
+  }
+
+  return wrapped as Client;
+}
+
+// A stream that opens and reads `open()` inside one `around` call, which
+// settles when the iteration ends: rejected if the stream failed, resolved if
+// it finished or the consumer stopped early.
+function streamAround(
+  open: () => ChatStream,
+  around: <T>(call: () => Promise<T>) => Promise<T>
+): ChatStream {
+  let inner: ChatStream | undefined;
+  let started = false;
+  // settles once `around` lets the stream open, or refuses it (breaker open,
+  // bulkhead full, ...); nobody may be waiting on it
+  let markOpened!: { resolve: () => void; reject: (error: unknown) => void };
+  const opened = new Promise<void>((resolve, reject) => {
+    markOpened = { resolve, reject };
+  });
+  opened.catch(() => undefined);
+
+  async function* chunks(): AsyncGenerator<string, void, undefined> {
+    let finish!: { resolve: () => void; reject: (error: unknown) => void };
+    const streamed = new Promise<void>((resolve, reject) => {
+      finish = { resolve, reject };
+    });
+
+    const guarded = around(() => {
+      inner = open();
+      markOpened.resolve();
+      return streamed;
+    });
+    guarded.catch((error) => markOpened.reject(error));
+
+    await Promise.race([opened, guarded]);
+
+    let failed = false;
+    try {
+      yield* inner!;
+    } catch (error) {
+      failed = true;
+      finish.reject(error);
+      throw error;
+    } finally {
+      if (!failed) finish.resolve();
+      // the caller already has the stream's error; `around` rethrows it
+      await guarded.catch(() => undefined);
+    }
+  }
+
+  const stream: ChatStream = {
+    [Symbol.asyncIterator]() {
+      if (started) throw new Error("A ChatStream can only be iterated once");
+      started = true;
+      return chunks();
+    },
+    async final() {
+      if (!started) {
+        const iterator = stream[Symbol.asyncIterator]();
+        try {
+          while (!(await iterator.next()).done);
+        } catch {
+          // rejected below, by `opened` or the inner stream's final()
+        }
+      }
+      await opened;
+      return inner!.final();
+    },
+  };
+
+  return stream;
+}
@@ -41,11 +41,16 @@
  *      and normalizes the output into the minimal interface your engine expects.
  *
  * 3. **Error normalization**
- *    - Translate OpenAI errors into standard Error objects.
+ *    - Non-2xx responses, bodies that aren't JSON and network failures all
+ *      become ProviderErrors carrying the HTTP status, OpenAI's error code,
+ *      the request id and Retry-After. Rate limits and server errors are
+ *      marked retryable; auth and validation errors are not.
  *    - This allows retry, timeout, and fallback policies to reason about errors cleanly.
  *
- * 4. **(Optional future) Streaming support**
- *    - Convert OpenAI’s streaming APIs into an async generator so steps can stream tokens.
+ * 4. **Streaming support**
+ *    - `chatStream(params)` turns the Responses API's server-sent events into
+ *      an async iterable of text deltas (parsing lives in utils/sse.ts), so a
+ *      step can return it and the engine streams it (see StepConfig.run).
  *
  * WHY THIS FILE MATTERS:
  * -----------------------
@@ -118,7 +123,17 @@
  * It's the plug that lets your reliability engine call *any* LLM,
  * while keeping your architecture clean, scalable, and professional.
  */
-import { OpenAIProviderClient, ChatParameters, OpenAiProviderConfig } from "../types";
+import {
+    OpenAIProviderClient,
+    ChatParameters,
+    ChatResult,
+    ChatStream,
+    OpenAiProviderConfig,
+} from "../types";
+import { CancelledError } from "../core/policies";
+import { ProviderError } from "../utils/error";
+import type { ErrorCategory } from "../utils/error";
+import { readServerSentEvents } from "../utils/sse";
 
 
 export function createOpenAIProvider(
@@ -128,37 +143,356 @@ export function createOpenAIProvider(
         apiKey,
         baseUrl = "https://api.openai.com/v1",
         defaultModel = "gpt-4.1-mini",
+        debug,
     } = config;
     return {
         async chat(params: ChatParameters): Promise<{ content: string }> {
             const model = params.model ?? defaultModel;
             const prompt = params.prompt;
-            
-            const response = await fetch(`${baseUrl}/responses`,{
-            method: 'POST',
-            headers: {
-                 "Content-Type": "application/json",
-                 "Authorization": `Bearer ${apiKey}`,
-            },
-            body:JSON.stringify({
-                model,
-                input:prompt,
-            }),
-        });
-
-        const data = await response.json();
-        console.log(
-            "[OpenAI raw response]",
-            JSON.stringify(data, null, 2),
-          );
-        const content = data.output_text ??
-        data.output?.[0]?.content?.[0]?.text ??
-        "[empty response]";
-            
-
-           
-        return {content };
+
+            const response = await send(`${baseUrl}/responses`, {
+                method: 'POST',
+                headers: {
+                    "Content-Type": "application/json",
+                    "Authorization": `Bearer ${apiKey}`,
+                },
+                body: JSON.stringify({
+                    model,
+                    input: prompt,
+                }),
+                signal: params.signal,
+            });
+            const requestId = response.headers.get("x-request-id") ?? undefined;
+
+            // Read as text first: a proxy's HTML error page or a cut-off body
+            // must fail the step, not come back as an empty answer.
+            let text: string;
+            try {
+                text = await response.text();
+            } catch (error) {
+                throw networkError(error, params.signal);
+            }
+
+            let data: OpenAIResponseBody | undefined;
+            try {
+                data = JSON.parse(text);
+            } catch {
+                data = undefined;
+            }
+            debug?.({ status: response.status, requestId, body: data ?? text });
+
+            if (!response.ok) {
+                throw errorFromResponse(response, data);
+            }
+
+            if (data === undefined) {
+                throw new ProviderError(
+                    `OpenAI returned a response that is not valid JSON (HTTP ${response.status})`,
+                    "openai",
+                    "provider",
+                    { status: response.status, requestId }
+                );
+            }
+
+            const content = data.output_text ??
+                data.output?.[0]?.content?.[0]?.text ??
+                "[empty response]";
+
+            return { content };
+        },
+
+        // Same request with `stream: true`: the Responses API answers with
+        // server-sent events. Text deltas are yielded as they arrive; the
+        // response.completed event carries the usage for final().
+        chatStream(params: ChatParameters): ChatStream {
+            const model = params.model ?? defaultModel;
+            let started = false;
+            let settle!: { resolve: (result: ChatResult) => void; reject: (error: unknown) => void };
+            const finished = new Promise<ChatResult>((resolve, reject) => {
+                settle = { resolve, reject };
+            });
+            // final() may never be called; a failed stream is reported to
+            // whoever iterates it, not as an unhandled rejection
+            finished.catch(() => undefined);
+
+            async function* deltas(): AsyncGenerator<string, void, undefined> {
+                let settled = false;
+
+                try {
+                    const response = await send(`${baseUrl}/responses`, {
+                        method: "POST",
+                        headers: {
+                            "Content-Type": "application/json",
+                            "Accept": "text/event-stream",
+                            "Authorization": `Bearer ${apiKey}`,
+                        },
+                        body: JSON.stringify({ model, input: params.prompt, stream: true }),
+                        signal: params.signal,
+                    });
+                    const requestId = response.headers.get("x-request-id") ?? undefined;
+
+                    if (!response.ok || !response.body) {
+                        let data: OpenAIResponseBody | undefined;
+                        try {
+                            data = await response.json();
+                        } catch {
+                            data = undefined;
+                        }
+                        throw errorFromResponse(response, data);
+                    }
+
+                    let content = "";
+
+                    for await (const event of readServerSentEvents(response.body)) {
+                        if (event.data === "[DONE]") continue;
+
+                        let data: OpenAIStreamEvent;
+                        try {
+                            data = JSON.parse(event.data);
+                        } catch (cause) {
+                            throw new ProviderError(
+                                `OpenAI sent a malformed "${event.event}" event`,
+                                "openai",
+                                "provider",
+                                { requestId, cause }
+                            );
+                        }
+
+                        switch (data.type) {
+                            case "response.output_text.delta":
+                                content += data.delta ?? "";
+                                if (data.delta) yield data.delta;
+                                break;
+
+                            case "error":
+                                throw new ProviderError(
+                                    data.message ?? "OpenAI stream failed",
+                                    "openai",
+                                    categoryForCode(data.code),
+                                    { code: data.code ?? undefined, requestId }
+                                );
+
+                            case "response.failed":
+                                throw new ProviderError(
+                                    data.response?.error?.message ?? "OpenAI response failed",
+                                    "openai",
+                                    categoryForCode(data.response?.error?.code),
+                                    { code: data.response?.error?.code ?? undefined, requestId }
+                                );
+
+                            case "response.completed":
+                            case "response.incomplete": {
+                                const usage = data.response?.usage;
+                                settled = true;
+                                settle.resolve({
+                                    content:
+                                        content ||
+                                        (data.response?.output?.[0]?.content?.[0]?.text ?? ""),
+                                    ...(usage && {
+                                        usage: {
+                                            inputTokens: usage.input_tokens,
+                                            outputTokens: usage.output_tokens,
+                                            totalTokens: usage.total_tokens,
+                                        },
+                                    }),
+                                });
+                                return;
+                            }
+                        }
+                    }
+
+                    throw new ProviderError(
+                        "OpenAI stream ended before the response completed",
+                        "openai",
+                        "provider",
+                        { requestId }
+                    );
+                } catch (error) {
+                    settled = true;
+                    // an abort surfaces as the caller's reason, not fetch's AbortError
+                    const reason = params.signal?.aborted
+                        ? params.signal.reason
+                        : error instanceof ProviderError
+                          ? error
+                          : new ProviderError(
+                                `OpenAI stream was interrupted: ${
+                                    error instanceof Error ? error.message : String(error)
+                                }`,
+                                "openai",
+                                "provider",
+                                { cause: error }
+                            );
+                    settle.reject(reason);
+                    throw reason;
+                } finally {
+                    if (!settled) {
+                        settle.reject(new CancelledError("OpenAI stream was closed before it finished"));
+                    }
+                }
+            }
+
+            const stream: ChatStream = {
+                [Symbol.asyncIterator]() {
+                    if (started) throw new Error("A ChatStream can only be iterated once");
+                    started = true;
+                    return deltas();
+                },
+                async final() {
+                    if (!started) {
+                        const iterator = stream[Symbol.asyncIterator]();
+                        try {
+                            while (!(await iterator.next()).done);
+                        } catch {
+                            // rejected through `finished` below
+                        }
+                    }
+                    return finished;
+                },
+            };
+
+            return stream;
+        },
+    }
+}
+
+// fetch, with a failure to reach OpenAI at all (DNS, refused connection,
+// reset socket) turned into a retryable ProviderError
+async function send(url: string, init: RequestInit): Promise<Response> {
+    try {
+        return await fetch(url, init);
+    } catch (error) {
+        throw networkError(error, init.signal ?? undefined);
+    }
+}
+
+function networkError(error: unknown, signal: AbortSignal | undefined): unknown {
+    // an abort is the caller's doing: keep its reason (CancelledError, ...)
+    if (signal?.aborted) return signal.reason;
+
+    return new ProviderError(
+        `Could not reach OpenAI: ${error instanceof Error ? error.message : String(error)}`,
+        "openai",
+        "provider",
+        { cause: error }
+    );
+}
+
+// Non-2xx response → ProviderError with whatever OpenAI told us about it.
+// Rate limits, timeouts, conflicts and server errors are retryable, except
+// a 429 for an exhausted quota, which no amount of waiting fixes.
+function errorFromResponse(
+    response: Response,
+    data: OpenAIResponseBody | undefined
+): ProviderError {
+    const { status } = response;
+    const error = data?.error;
+    const code = error?.code ?? error?.type ?? undefined;
+
+    return new ProviderError(
+        `OpenAI request failed with HTTP ${status}` +
+            (error?.message ? `: ${error.message}` : ""),
+        "openai",
+        categoryForStatus(status),
+        {
+            status,
+            code,
+            requestId: response.headers.get("x-request-id") ?? undefined,
+            ...retryAfter(response.headers, status),
+            retryable:
+                (status === 408 || status === 409 || status === 429 || status >= 500) &&
+                code !== "insufficient_quota",
         }
+    );
+}
+
+// How long OpenAI wants us to wait, and which header said so. In order:
+// `retry-after-ms` (OpenAI's own, more precise), the standard `Retry-After`
+// (seconds or an HTTP date) and, for a 429 without either, the reset time
+// of the exhausted rate limit (`x-ratelimit-reset-requests` / `-tokens`).
+function retryAfter(
+    headers: Headers,
+    status: number
+): { retryAfterMs: number; retryAfterSource: string } | undefined {
+    const ms = Number.parseFloat(headers.get("retry-after-ms") ?? "");
+    if (Number.isFinite(ms) && ms >= 0) {
+        return { retryAfterMs: ms, retryAfterSource: "retry-after-ms" };
+    }
+
+    const value = headers.get("retry-after");
+    if (value) {
+        const seconds = Number(value);
+        const date = Date.parse(value);
+        const delay = Number.isFinite(seconds) && seconds >= 0
+            ? seconds * 1000
+            : Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+        if (delay !== undefined) return { retryAfterMs: delay, retryAfterSource: "retry-after" };
     }
+
+    if (status !== 429) return undefined;
+
+    // Prefer the limit that is actually used up; if the headers don't say,
+    // wait for whichever resets last
+    const resets = (["requests", "tokens"] as const)
+        .map((limit) => ({
+            source: `x-ratelimit-reset-${limit}`,
+            exhausted: headers.get(`x-ratelimit-remaining-${limit}`) === "0",
+            delayMs: parseDuration(headers.get(`x-ratelimit-reset-${limit}`)),
+        }))
+        .filter((reset): reset is typeof reset & { delayMs: number } => reset.delayMs !== undefined);
+    const candidates = resets.some((reset) => reset.exhausted)
+        ? resets.filter((reset) => reset.exhausted)
+        : resets;
+    const longest = candidates.sort((a, b) => b.delayMs - a.delayMs)[0];
+
+    return longest && { retryAfterMs: longest.delayMs, retryAfterSource: longest.source };
+}
+
+// OpenAI's reset durations: "20ms", "1s", "6m0s", "1h2m3.5s"
+function parseDuration(value: string | null): number | undefined {
+    const match = value?.trim().match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/);
+    if (!match || match[0] === "") return undefined;
+
+    const [, hours = "0", minutes = "0", seconds = "0", millis = "0"] = match;
+    return (
+        Number(hours) * 3_600_000 +
+        Number(minutes) * 60_000 +
+        Number(seconds) * 1000 +
+        Number(millis)
+    );
+}
+
+// The subset of a Responses API body chat() reads (success or error)
+interface OpenAIResponseBody {
+    output_text?: string;
+    output?: { content?: { text?: string }[] }[];
+    error?: { message?: string; type?: string; code?: string | null } | null;
+}
+
+// The subset of Responses API stream events chatStream reads
+interface OpenAIStreamEvent {
+    type: string;
+    delta?: string;
+    code?: string | null;
+    message?: string;
+    response?: {
+        error?: { code?: string; message?: string } | null;
+        output?: { content?: { text?: string }[] }[];
+        usage?: { input_tokens: number; output_tokens: number; total_tokens: number };
+    };
+}
+
+function categoryForStatus(status: number): ErrorCategory {
+    if (status === 429) return "rate_limit";
+    if (status === 408) return "timeout";
+    if (status === 401 || status === 403) return "auth";
+    if (status === 400 || status === 404 || status === 422) return "validation";
+    return "provider";
+}
+
+// Error codes OpenAI reports inside a stream (no HTTP status by then)
+function categoryForCode(code: string | null | undefined): ErrorCategory {
+    if (code === "rate_limit_exceeded") return "rate_limit";
+    if (code === "invalid_prompt" || code === "context_length_exceeded") return "validation";
+    return "provider";
 }
   
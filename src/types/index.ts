@@ -100,21 +100,77 @@
  */
 
 import { RetryPolicy } from "../core/policies";
+import type {
+  Bulkhead,
+  CircuitBreaker,
+  CircuitState,
+  Clock,
+  HedgePolicy,
+  RateLimiter,
+  RetryAttempt,
+} from "../core/policies";
+import type { CheckpointStore } from "../core/checkpoint";
+import type { SerializedError } from "../utils/error";
 
 export type StepId = string;
 
 export interface StepConfig<Input = unknown, Output = unknown> {
   id: StepId;
-  run: (ctx: ExecutionContext<Input>) => Promise<Output>;
+  // may also return an AsyncIterable of chunks (e.g. tokens from a streaming
+  // LLM call): each chunk is emitted as a step_chunk event and the step's
+  // output is the assembled stream (see `assemble`)
+  run: (ctx: ExecutionContext<Input>) => Promise<Output> | AsyncIterable<unknown>;
   retry?: RetryPolicy;
   timeoutMs?: number;
-  fallbackTo?: StepId;
+  // streamed steps: longest wait for the next chunk (the first one included)
+  // before the attempt fails with TimeOutError
+  idleTimeoutMs?: number;
+  // streamed steps: builds the output from the chunks. Defaults to joining
+  // them when every chunk is a string, otherwise the array of chunks
+  assemble?: (chunks: unknown[]) => Output;
+  // race a second attempt against a slow one; timeoutMs applies to each, and
+  // each takes its own rate-limit token and bulkhead slot
+  hedge?: HedgePolicy;
+  // step(s) to try, in order, when this one fails. Each fallback's own
+  // fallbackTo is followed as well, so tiers can be chained:
+  // "gpt-4.1" → ["gpt-4.1-mini", "cached-answer"]
+  fallbackTo?: StepId | StepId[];
+  // steps that must finish before this one starts; declaring it on any step
+  // switches the intent from linear to graph (DAG) execution. fallbackTo
+  // targets can't declare it: they run in place of the step that failed
+  dependsOn?: StepId[];
+  // conditional routing (linear intents only): pick the step that runs after
+  // this one. `next` returning undefined ends the intent; `route` maps the
+  // stringified output to a step id, e.g. { refund: "refund", other: "answer" }
+  next?: (output: Output, ctx: ExecutionContext<Input>) => StepId | undefined;
+  route?: Record<string, StepId>;
+  // shared breaker guarding every attempt of this step. While it is open the
+  // step fails fast with CircuitOpenError (not retried; fallbackTo applies)
+  circuitBreaker?: CircuitBreaker;
+  // shared limits on concurrent calls / call rate for every attempt. A full
+  // queue fails the attempt with BulkheadFullError / RateLimitExceededError
+  // (not retried; fallbackTo applies)
+  bulkhead?: Bulkhead;
+  rateLimiter?: RateLimiter;
+  // human-in-the-loop: when the run reaches this step it suspends and returns
+  // a resume token. After resumeWithApproval(), run() is called with the
+  // reviewer's decision on ctx.approval; a rejection fails the step instead.
+  awaitApproval?: boolean;
+  // saga-style undo: if the intent ultimately fails, every step that
+  // completed gets its compensate() called, most recent first
+  compensate?: (ctx: ExecutionContext<Input>, output: Output) => Promise<void>;
+  compensation?: {
+    retry?: RetryPolicy;
+    timeoutMs?: number;
+  };
 }
 // describes a singe step in an intent, accepts genericas and then promises to eventually return an output
 export interface IntentConfig<Input = unknown, Output = unknown> {
   name: string;
   steps: StepConfig<Input, Output>[];
   entryStepId?: StepId;
+  // time budget for the whole run (all steps, retries and fallbacks)
+  deadlineMs?: number;
 }
 // how a user describes an intent, what the user pases to defineIntent, configuration
 
@@ -128,12 +184,64 @@ export interface ExecutionContext<Input = unknown> {
   } 
   metadata: Record<string, unknown>;
   telemetry?: TelemetrySink;
+  // filled in by runIntent: output of each step that has already succeeded in
+  // this run (a fallback's output is also stored under the failed step's id)
+  outputs?: StepOutputs;
+  // filled in by runIntent: for each streamed step that has succeeded in this
+  // run, its chunks as a stream that can be read again by any later step
+  streams?: StepStreams;
+  // filled in by runIntent: aborted when the current attempt times out or the
+  // run is cancelled. Pass it on to providers / fetch so the work stops.
+  signal?: AbortSignal;
+  // filled in by runIntent: ms left before the run's deadline (Infinity when
+  // the run has none), e.g. to size a provider request
+  remainingMs?: () => number;
+  // filled in by runIntent for an awaitApproval step being resumed
+  approval?: ApprovalDecision;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  // whatever the reviewer submitted (edited draft, notes, ...)
+  payload?: unknown;
+  reviewer?: string;
 }
 //what a step receives at runtime
+export type StepOutputs = Readonly<Record<StepId, unknown>>;
+export type StepStreams = Readonly<Record<StepId, AsyncIterable<unknown>>>;
+
+// per-call options for runIntent (things that vary per request rather than per intent)
+export interface RunOptions {
+  // aborting this signal cancels the run: in-flight steps see ctx.signal
+  // abort, no further steps start, and the run ends with a CancelledError
+  signal?: AbortSignal;
+  // overrides IntentConfig.deadlineMs for this call
+  deadlineMs?: number;
+  // identifies this run (generated when omitted); checkpoints are keyed by it
+  runId?: string;
+  // when set, progress is saved after every successful step so the run can
+  // be continued later with resumeIntent(intent, runId, ctx, options)
+  checkpointStore?: CheckpointStore;
+  // ties this run's telemetry to a caller's run or request (e.g. the
+  // request id from your HTTP logs); copied onto every event
+  parentRunId?: string;
+  correlationId?: string;
+  // W3C trace context of the caller ("00-<trace id>-<span id>-<flags>", e.g.
+  // the incoming `traceparent` header); span exporters parent the run under it
+  traceparent?: string;
+  // time source for deadlines and retry backoff (defaults to the system
+  // clock); tests pass a fake one so backoff delays resolve instantly
+  clock?: Clock;
+}
+
 export interface TelemetryEvent {
   type:
     | "intent_started"
     | "intent_finished"
+    | "intent_cancelled"
+    | "intent_suspended"
+    | "intent_resumed"
+    | "deadline_exceeded"
     | "step_started"
     | "step_finished"
     | "retry_attempt_started"
@@ -141,36 +249,169 @@ export interface TelemetryEvent {
     | "timeout_started"
     | "timeout_fired"
     | "timeout_cleared"
+    | "step_routed"
+    | "compensation_started"
+    | "compensation_finished"
+    | "fallback_triggered"
+    | "circuit_state_changed"
+    | "queue_waited"
+    | "hedge_started"
+    | "hedge_won"
+    | "step_chunk"
     
   timestamp: number;
   intentName: string;
+  // set on every event emitted during a run (events from a policy wrapped
+  // around a provider client outside any run have none)
+  runId?: string;
+  // copied from RunOptions when given
+  parentRunId?: string;
+  correlationId?: string;
+  // intent_started: RunOptions.traceparent, when given
+  traceparent?: string;
   stepId?: StepId;
   success?: boolean;
-  error?: unknown;
+  // always serialized (see serializeError) so events survive JSON.stringify;
+  // ExecutionResult.error keeps the original error object
+  error?: SerializedError;
+  // retry events; step_chunk: the attempt that streamed the chunk
   attempt?: number
+  // step_finished / intent_finished: attempts made (retries included; for
+  // intent_finished, summed over all steps)
+  attempts?: number;
+  // step_finished (failed): every attempt's error once retries ran out
+  attemptErrors?: (Omit<RetryAttempt, "error"> & { error: SerializedError })[];
+  // step_routed: where execution goes next (undefined = intent ends), which
+  // mechanism picked it and, for `route`, the output key that matched
+  nextStepId?: StepId;
+  reason?: "next" | "route";
+  routeKey?: string;
+  // fallback_triggered: the step that takes over for `stepId`, and its
+  // position in the fallback chain (1 = first fallback)
+  fallbackStepId?: StepId;
+  tier?: number;
+  // intent_resumed: how long the run was suspended;
+  // step_finished / intent_finished: how long the step / run took
+  durationMs?: number;
+  // circuit_state_changed: which breaker moved, and between which states
+  circuit?: string;
+  circuitState?: CircuitState;
+  previousCircuitState?: CircuitState;
+  // queue_waited: the bulkhead / rate limiter a call waited on, and for how long
+  limiter?: string;
+  queueWaitMs?: number;
+  // hedge_started / hedge_won / step_chunk: which attempt of the race (0 = the
+  // original)
+  hedge?: number;
+  // retry_attempt_failed: how long the policy waits before the next attempt,
+  // and who picked that wait: "policy" (backoff), the header of the error's
+  // retry hint, e.g. "retry-after", or "deadline" when the run's deadline
+  // cut the wait short
+  delayMs?: number;
+  delaySource?: string;
+  // step_chunk: one chunk of a streamed step and its position in the stream.
+  // A retry or hedge streams from the start again: chunkIndex restarts at 0
+  // and `attempt` / `hedge` tell the streams apart
+  chunk?: unknown;
+  chunkIndex?: number;
+  // step_finished of a streamed step: the assembled output
+  output?: unknown;
+}
+
+export type ExecutionStatus = "succeeded" | "failed" | "cancelled" | "suspended";
+
+// Everything needed to continue a suspended run. `state` is the serialized
+// checkpoint, so the caller can persist it anywhere (DB row, queue message).
+export interface SuspendedRun {
+  token: string;
+  stepId: StepId;
+  state: string;
 }
 
 export interface ExecutionResult<Output = unknown> {
   intentName: string;
+  runId: string;
+  status: ExecutionStatus;
   success: boolean;
   output?: Output;
   error?: unknown;
   trace: TelemetryEvent[];
   metadata:Record<string, unknown>;
+  // set when status is "suspended"
+  suspended?: SuspendedRun;
+  // compensations that ran because the intent failed, in the order they ran
+  compensations?: CompensationRecord[];
+}
+
+// options for streamIntent: RunOptions plus how far the run may get ahead
+// of a slow consumer
+export interface StreamOptions extends RunOptions {
+  // once this many events are waiting to be read, the run doesn't start its
+  // next step, nor read the next chunk of a streamed step, until the
+  // consumer catches up. A positive integer (default 100)
+  highWaterMark?: number;
+}
+
+// The last item streamIntent yields, after the run's intent_finished (or
+// intent_suspended) event
+export interface IntentResultEvent<Output = unknown> {
+  type: "intent_result";
+  timestamp: number;
+  intentName: string;
+  runId: string;
+  result: ExecutionResult<Output>;
+}
+
+export type IntentStreamEvent<Output = unknown> =
+  | TelemetryEvent
+  | IntentResultEvent<Output>;
+
+export interface CompensationRecord {
+  stepId: StepId;
+  success: boolean;
+  error?: unknown;
 }
 
 
 
 export interface OpenAIProviderClient{
   chat: (params:ChatParameters)=> Promise<{content:string}>
+  // streams text deltas as they are generated; a step can return it as-is
+  // (see StepConfig.run). Optional so hand-written mocks stay valid
+  chatStream?: (params:ChatParameters)=> ChatStream
+}
+export interface ChatUsage{
+  inputTokens:number;
+  outputTokens:number;
+  totalTokens:number;
+}
+export interface ChatResult{
+  content:string;
+  usage?:ChatUsage;
+}
+// Iterating yields text deltas; final() resolves with the whole message once
+// the stream has ended (reading the rest itself if nobody is iterating).
+// A stream can be iterated once.
+export interface ChatStream extends AsyncIterable<string>{
+  final: ()=> Promise<ChatResult>
 }
 export interface ChatParameters{
    prompt:string;
    model?:string;
+   signal?:AbortSignal;
 }
 export interface OpenAiProviderConfig {
    apiKey:string,
    baseUrl?:string,
    defaultModel?:string,
+   // opt-in: called with every HTTP response chat() receives (the raw JSON
+   // body included), e.g. to log it while debugging a prompt
+   debug?:(event:OpenAIDebugEvent)=>void,
+}
+export interface OpenAIDebugEvent{
+   status:number;
+   requestId?:string;
+   // parsed JSON body, or the raw text when it isn't JSON
+   body:unknown;
 }
 export type TelemetrySink = (event: TelemetryEvent) => void;
\ No newline at end of file
@@ -21,7 +21,7 @@
  *
  * WHAT THIS FILE WILL EVENTUALLY CONTAIN:
  * ----------------------------------------
- * Not now — just documenting — but later you will implement:
+ * The vocabulary below is implemented at the bottom of this file:
  *
  *
  * 1. **IntentConfigurationError**
@@ -49,12 +49,12 @@
  *         • operations that simply took too long
  *
  *
- * 4. **FallbackError** (future)
+ * 4. **FallbackError**
  *    - Used if a fallback fails after the primary also failed.
  *    - Helps engine.ts determine whether an intent should stop immediately.
  *
  *
- * 5. **ProviderError** (future)
+ * 5. **ProviderError**
  *    - A normalized representation of LLM provider failures (OpenAI, Anthropic, etc.)
  *    - Translates vendor-specific errors into a consistent shape.
  *
@@ -111,4 +111,256 @@
  * - Policies use these to decide how to retry or fallback.
  * - Engine uses them to determine how to route execution.
  * - Telemetry uses them to*
-*/
\ No newline at end of file
+*/
+
+import type { StepId } from "../types";
+import type { RetryAttempt } from "../core/policies";
+
+// Coarse failure classes callers can branch on without string matching:
+//   rate_limit  → 429s, full bulkheads / rate-limit queues
+//   timeout     → step timeouts, exhausted deadlines
+//   auth        → bad or missing credentials
+//   validation  → bad configuration or input that will never succeed
+//   provider    → the upstream service failed (5xx, open circuit, network)
+//   user        → everything thrown by step code itself (the default)
+export type ErrorCategory =
+  | "rate_limit"
+  | "timeout"
+  | "auth"
+  | "validation"
+  | "provider"
+  | "user";
+
+// Base class for every error this library throws.
+export class ReliabilityError extends Error {
+  category: ErrorCategory;
+  cause?: unknown;
+  constructor(message: string, category: ErrorCategory, cause?: unknown) {
+    super(message);
+    this.name = "ReliabilityError";
+    this.category = category;
+    this.cause = cause;
+  }
+}
+
+// Category of any thrown value; errors from outside the library are "user".
+export function categoryOf(error: unknown): ErrorCategory {
+  return error instanceof ReliabilityError ? error.category : "user";
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// defineIntent() found a problem with the config (or the engine was handed
+// an intent that references steps that don't exist).
+export class IntentConfigurationError extends ReliabilityError {
+  intentName?: string;
+  constructor(message: string, intentName?: string) {
+    super(message, "validation");
+    this.name = "IntentConfigurationError";
+    this.intentName = intentName;
+  }
+}
+
+// A step failed after its policies (retry, timeout, ...) gave up. `cause` is
+// what the step (or policy) actually threw; `category` is taken from it.
+export class StepExecutionError extends ReliabilityError {
+  intentName: string;
+  stepId: StepId;
+  // attempts made before giving up (0 if the step never started one)
+  attempt: number;
+  // every failed attempt when the step ran out of retries (else empty)
+  attempts: RetryAttempt[];
+  constructor(
+    intentName: string,
+    stepId: StepId,
+    attempt: number,
+    cause: unknown,
+    attempts: RetryAttempt[] = []
+  ) {
+    super(
+      `Step "${stepId}" in intent "${intentName}" failed: ${messageOf(cause)}`,
+      categoryOf(cause),
+      cause
+    );
+    this.name = "StepExecutionError";
+    this.intentName = intentName;
+    this.stepId = stepId;
+    this.attempt = attempt;
+    this.attempts = attempts;
+  }
+}
+
+// A step and every fallback tried for it failed. `errors` holds one
+// StepExecutionError per tier, in the order they ran; `cause` is the last.
+export class FallbackError extends ReliabilityError {
+  intentName: string;
+  stepId: StepId;
+  errors: StepExecutionError[];
+  constructor(intentName: string, stepId: StepId, errors: StepExecutionError[]) {
+    const last = errors[errors.length - 1];
+    super(
+      `Step "${stepId}" in intent "${intentName}" and its ${errors.length - 1} fallback(s) failed: ${messageOf(last?.cause)}`,
+      categoryOf(last),
+      last
+    );
+    this.name = "FallbackError";
+    this.intentName = intentName;
+    this.stepId = stepId;
+    this.errors = errors;
+  }
+}
+
+export interface ProviderErrorDetails {
+  // HTTP status, when the provider answered at all
+  status?: number;
+  // provider-specific error code, e.g. "rate_limit_exceeded"
+  code?: string;
+  // request id the provider assigned, for support tickets
+  requestId?: string;
+  // how long the provider asked us to wait (Retry-After), in ms, and which
+  // header said so, e.g. "retry-after" or "x-ratelimit-reset-tokens"
+  retryAfterMs?: number;
+  retryAfterSource?: string;
+  // whether trying again can reasonably succeed
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+// Errors that know how long to wait before trying again implement this;
+// runWithRetry waits at least that long before the next attempt.
+export interface RetryDelayHint {
+  retryDelay(): { delayMs: number; source: string } | undefined;
+}
+
+// The hint of `error` or, failing that, of the first error in its cause
+// chain that has one (steps often wrap provider errors).
+export function retryDelayHintOf(
+  error: unknown
+): { delayMs: number; source: string } | undefined {
+  for (let current = error, depth = 0; current && depth < 8; depth++) {
+    const hint =
+      typeof (current as Partial<RetryDelayHint>).retryDelay === "function"
+        ? (current as RetryDelayHint).retryDelay()
+        : undefined;
+    if (hint) return hint;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+// A normalized LLM provider failure (OpenAI, Anthropic, ...).
+export class ProviderError extends ReliabilityError implements RetryDelayHint {
+  provider: string;
+  status?: number;
+  code?: string;
+  requestId?: string;
+  retryAfterMs?: number;
+  retryAfterSource?: string;
+  retryable: boolean;
+  constructor(
+    message: string,
+    provider: string,
+    category: ErrorCategory = "provider",
+    details: ProviderErrorDetails = {}
+  ) {
+    super(message, category, details.cause);
+    this.name = "ProviderError";
+    this.provider = provider;
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.retryAfterMs = details.retryAfterMs;
+    this.retryAfterSource = details.retryAfterSource;
+    this.retryable =
+      details.retryable ?? (category === "rate_limit" || category === "provider");
+  }
+
+  retryDelay() {
+    return this.retryAfterMs === undefined
+      ? undefined
+      : { delayMs: this.retryAfterMs, source: this.retryAfterSource ?? this.provider };
+  }
+}
+
+// JSON-safe form of an error, as it appears in telemetry events and logs.
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  // e.g. Node's "ECONNRESET" or a provider's "rate_limit_exceeded"
+  code?: string;
+  category?: ErrorCategory;
+  // ProviderError: HTTP status of the failed call
+  status?: number;
+  // StepExecutionError / FallbackError: the step that failed
+  stepId?: StepId;
+  cause?: SerializedError;
+}
+
+// cause chains longer than this are cut off (and cycles can't loop forever)
+const MAX_CAUSE_DEPTH = 8;
+
+// Turn any thrown value into a SerializedError. JSON.stringify(new Error())
+// is "{}", so errors must go through this before they are logged.
+export function serializeError(error: unknown, depth = 0): SerializedError {
+  if (!(error instanceof Error)) {
+    return {
+      name: "NonError",
+      message: typeof error === "string" ? error : safeStringify(error),
+    };
+  }
+
+  const fields = error as Error & {
+    code?: unknown;
+    category?: unknown;
+    status?: unknown;
+    stepId?: unknown;
+    cause?: unknown;
+  };
+
+  return {
+    name: error.name,
+    message: error.message,
+    ...(error.stack !== undefined && { stack: error.stack }),
+    ...(typeof fields.code === "string" && { code: fields.code }),
+    ...(typeof fields.category === "string" && {
+      category: fields.category as ErrorCategory,
+    }),
+    ...(typeof fields.status === "number" && { status: fields.status }),
+    ...(typeof fields.stepId === "string" && { stepId: fields.stepId }),
+    ...(fields.cause !== undefined &&
+      depth < MAX_CAUSE_DEPTH && {
+        cause: serializeError(fields.cause, depth + 1),
+      }),
+  };
+}
+
+// Rebuild an Error from serializeError() output (e.g. read back from logs).
+// Class identity is not restored, but name, message, stack, category and the
+// cause chain are; errors that had a category come back as ReliabilityError.
+export function deserializeError(serialized: SerializedError): Error {
+  const cause =
+    serialized.cause !== undefined ? deserializeError(serialized.cause) : undefined;
+  const error: Error & Partial<Omit<SerializedError, "cause">> =
+    serialized.category !== undefined
+      ? new ReliabilityError(serialized.message, serialized.category, cause)
+      : Object.assign(new Error(serialized.message), cause && { cause });
+
+  error.name = serialized.name;
+  if (serialized.stack !== undefined) error.stack = serialized.stack;
+  if (serialized.code !== undefined) error.code = serialized.code;
+  if (serialized.status !== undefined) error.status = serialized.status;
+  if (serialized.stepId !== undefined) error.stepId = serialized.stepId;
+
+  return error;
+}
+
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * sse.ts
+ * -------
+ * A small, vendor-neutral reader for **server-sent event** streams
+ * (`Content-Type: text/event-stream`), the format LLM APIs use for
+ * streaming responses.
+ *
+ * It follows the parsing rules of the HTML spec: `field: value` lines,
+ * events separated by a blank line, `data` lines joined with "\n",
+ * comments (lines starting with ":") ignored, and any of "\r\n", "\r" or
+ * "\n" as a line ending — even when a chunk boundary falls in the middle
+ * of one. An event cut off by the end of the stream is discarded.
+ *
+ * Providers parse `data` themselves; this file knows nothing about JSON or
+ * any vendor's event names.
+ */
+
+export interface ServerSentEvent {
+  // "message" when the event has no `event:` field
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent, void, undefined> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event: { type?: string; data: string[]; id?: string } = { data: [] };
+
+  // Returns the completed event when `line` is the blank line ending one
+  const handleLine = (line: string): ServerSentEvent | undefined => {
+    if (line === "") {
+      const completed = event;
+      event = { data: [] };
+      if (completed.data.length === 0) return undefined;
+      return {
+        event: completed.type ?? "message",
+        data: completed.data.join("\n"),
+        ...(completed.id !== undefined && { id: completed.id }),
+      };
+    }
+
+    if (line.startsWith(":")) return undefined;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") event.type = value;
+    else if (field === "data") event.data.push(value);
+    else if (field === "id") event.id = value;
+    return undefined;
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lineEnd = /\r\n|\r|\n/g;
+      let consumed = 0;
+      let match: RegExpExecArray | null;
+
+      while ((match = lineEnd.exec(buffer))) {
+        // a trailing "\r" may be the first half of a "\r\n" still in transit
+        if (!done && match[0] === "\r" && match.index === buffer.length - 1) break;
+
+        const completed = handleLine(buffer.slice(consumed, match.index));
+        consumed = match.index + match[0].length;
+        if (completed) yield completed;
+      }
+
+      buffer = buffer.slice(consumed);
+      if (done) return;
+    }
+  } finally {
+    // stops the download when the consumer leaves early
+    void reader.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * approval.spec.ts
+ * -----------------
+ * Tests for human-in-the-loop approval steps (`awaitApproval`).
+ *
+ * A run that reaches an approval step must suspend (not fail), hand back a
+ * token + serialized state, and continue from exactly that step once
+ * `resumeWithApproval` is called with the reviewer's decision.
+ */
+import { describe, it, expect } from "vitest";
+import { defineIntent } from "../../src/core/intent";
+import {
+  resumeIntent,
+  resumeWithApproval,
+  runIntent,
+} from "../../src/core/engine";
+import {
+  CheckpointError,
+  createMemoryCheckpointStore,
+} from "../../src/core/checkpoint";
+
+function makeReviewIntent(calls: string[]) {
+  return defineIntent<{ topic: string }, string>({
+    name: "reviewed-email",
+    steps: [
+      {
+        id: "draft",
+        async run(ctx) {
+          calls.push("draft");
+          return `Draft about ${ctx.input.topic}`;
+        },
+      },
+      {
+        id: "review",
+        awaitApproval: true,
+        fallbackTo: "discard",
+        async run(ctx) {
+          calls.push("review");
+          // reviewers may send back an edited draft
+          return (ctx.approval!.payload as string) ?? ctx.outputs!["draft"];
+        },
+        // the fallback stands in for "review", so this also sees its output
+        next: (output) => (output === "discarded" ? undefined : "send"),
+      },
+      {
+        id: "discard",
+        async run() {
+          calls.push("discard");
+          return "discarded";
+        },
+      },
+      {
+        id: "send",
+        async run(ctx) {
+          calls.push("send");
+          return `sent: ${ctx.outputs!["review"]}`;
+        },
+      },
+    ],
+  });
+}
+
+describe("awaitApproval steps", () => {
+  it("suspends the run and resumes with an approval payload", async () => {
+    const calls: string[] = [];
+    const intent = makeReviewIntent(calls);
+
+    const suspended = await runIntent(intent, {
+      input: { topic: "pricing" },
+      metadata: {},
+    });
+
+    expect(suspended.status).toBe("suspended");
+    expect(suspended.success).toBe(false);
+    expect(suspended.suspended).toMatchObject({ stepId: "review" });
+    expect(typeof suspended.suspended!.token).toBe("string");
+    expect(suspended.trace.map((e) => e.type).slice(-1)).toEqual([
+      "intent_suspended",
+    ]);
+    expect(calls).toEqual(["draft"]);
+
+    const resumed = await resumeWithApproval(
+      intent,
+      suspended.suspended!,
+      { approved: true, payload: "Edited draft", reviewer: "sam" },
+      { input: { topic: "pricing" }, metadata: {} },
+    );
+
+    expect(resumed.status).toBe("succeeded");
+    expect(resumed.runId).toBe(suspended.runId);
+    expect(resumed.output).toBe("sent: Edited draft");
+    expect(calls).toEqual(["draft", "review", "send"]);
+
+    const resumedEvent = resumed.trace.find((e) => e.type === "intent_resumed");
+    expect(resumedEvent).toMatchObject({ stepId: "review" });
+    expect(resumedEvent!.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("fails the approval step on rejection so its fallback can take over", async () => {
+    const calls: string[] = [];
+    const intent = makeReviewIntent(calls);
+
+    const suspended = await runIntent(intent, {
+      input: { topic: "pricing" },
+      metadata: {},
+    });
+
+    const resumed = await resumeWithApproval(
+      intent,
+      suspended.suspended!,
+      { approved: false, reviewer: "sam" },
+      { input: { topic: "pricing" }, metadata: {} },
+    );
+
+    expect(resumed.status).toBe("succeeded");
+    expect(resumed.output).toBe("discarded");
+    expect(calls).toEqual(["draft", "discard"]);
+
+    const reviewFinished = resumed.trace.find(
+      (e) => e.type === "step_finished" && e.stepId === "review",
+    );
+    expect(reviewFinished!.error).toMatchObject({
+      name: "StepExecutionError",
+      cause: { name: "ApprovalRejectedError", category: "user" },
+    });
+  });
+
+  it("rejects a resume token that does not match the state", async () => {
+    const intent = makeReviewIntent([]);
+
+    const suspended = await runIntent(intent, {
+      input: { topic: "pricing" },
+      metadata: {},
+    });
+
+    await expect(
+      resumeWithApproval(
+        intent,
+        { token: "forged", state: suspended.suspended!.state },
+        { approved: true },
+        { input: { topic: "pricing" }, metadata: {} },
+      ),
+    ).rejects.toBeInstanceOf(CheckpointError);
+  });
+
+  it("saves the suspended state to the checkpoint store", async () => {
+    const store = createMemoryCheckpointStore();
+    const intent = makeReviewIntent([]);
+
+    const suspended = await runIntent(
+      intent,
+      { input: { topic: "pricing" }, metadata: {} },
+      { runId: "review-run", checkpointStore: store },
+    );
+
+    const saved = await store.load("review-run");
+    expect(saved!.suspended).toMatchObject({
+      stepId: "review",
+      token: suspended.suspended!.token,
+    });
+
+    // resuming without a decision just asks for approval again
+    const again = await resumeIntent(
+      intent,
+      "review-run",
+      { input: { topic: "pricing" }, metadata: {} },
+      { checkpointStore: store },
+    );
+    expect(again.status).toBe("suspended");
+    expect(again.suspended!.stepId).toBe("review");
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * checkpoint.spec.ts
+ * -------------------
+ * Tests for checkpoint stores and `resumeIntent`.
+ *
+ * The scenario throughout: a run stops part-way (a step fails, standing in
+ * for a crashed process), and resuming it must NOT re-run the steps that
+ * already completed, while restoring their outputs and the run's metadata.
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { defineIntent } from "../../src/core/intent";
+import { runIntent, resumeIntent } from "../../src/core/engine";
+import {
+  CheckpointError,
+  createFileCheckpointStore,
+  createMemoryCheckpointStore,
+} from "../../src/core/checkpoint";
+import type { CheckpointStore } from "../../src/core/checkpoint";
+
+// A three-step intent whose middle step fails until `healthy` is flipped.
+function makeFlakyIntent(calls: string[], state: { healthy: boolean }) {
+  return defineIntent<void, string>({
+    name: "checkpointed-intent",
+    steps: [
+      {
+        id: "draft",
+        async run(ctx) {
+          calls.push("draft");
+          ctx.metadata = { ...ctx.metadata, tone: "formal" };
+          return "draft-v1";
+        },
+      },
+      {
+        id: "review",
+        async run(ctx) {
+          calls.push("review");
+          if (!state.healthy) throw new Error("process died");
+          return `reviewed ${ctx.outputs!["draft"]}`;
+        },
+      },
+      {
+        id: "send",
+        async run(ctx) {
+          calls.push("send");
+          return `${ctx.outputs!["review"]} (${ctx.metadata.tone})`;
+        },
+      },
+    ],
+  });
+}
+
+async function expectResumeSkipsCompletedSteps(store: CheckpointStore) {
+  const calls: string[] = [];
+  const state = { healthy: false };
+  const intent = makeFlakyIntent(calls, state);
+
+  const first = await runIntent(
+    intent,
+    { input: undefined, metadata: {} },
+    { runId: "run-1", checkpointStore: store },
+  );
+
+  expect(first.success).toBe(false);
+  expect(first.runId).toBe("run-1");
+
+  const saved = await store.load("run-1");
+  expect(saved).toMatchObject({
+    runId: "run-1",
+    intentName: "checkpointed-intent",
+    completedStepIds: ["draft"],
+    outputs: { draft: "draft-v1" },
+    metadata: { tone: "formal" },
+    nextStepId: "review",
+  });
+
+  state.healthy = true;
+  const resumed = await resumeIntent(
+    intent,
+    "run-1",
+    { input: undefined, metadata: {} },
+    { checkpointStore: store },
+  );
+
+  expect(resumed.success).toBe(true);
+  expect(resumed.runId).toBe("run-1");
+  expect(resumed.output).toBe("reviewed draft-v1 (formal)");
+  expect(resumed.metadata).toEqual({ tone: "formal" });
+  // "draft" ran once, in the first run only
+  expect(calls).toEqual(["draft", "review", "review", "send"]);
+}
+
+describe("checkpointing – in-memory store", () => {
+  it("resumes from the step after the last checkpoint", async () => {
+    await expectResumeSkipsCompletedSteps(createMemoryCheckpointStore());
+  });
+
+  it("fails the run with a CheckpointError when an output cannot be serialized", async () => {
+    const intent = defineIntent<void, unknown>({
+      name: "unserializable-intent",
+      steps: [
+        {
+          id: "lookup",
+          async run() {
+            return new Map([["a", 1]]);
+          },
+        },
+        {
+          id: "after",
+          async run() {
+            return "never";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(
+      intent,
+      { input: undefined, metadata: {} },
+      { checkpointStore: createMemoryCheckpointStore() },
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(CheckpointError);
+    expect((result.error as Error).message).toContain("holds a Map");
+    expect(
+      result.trace.filter((e) => e.type === "step_started").map((e) => e.stepId),
+    ).toEqual(["lookup"]);
+  });
+
+  it("rejects resumeIntent when there is no checkpoint for the run", async () => {
+    const intent = makeFlakyIntent([], { healthy: true });
+
+    await expect(
+      resumeIntent(
+        intent,
+        "missing-run",
+        { input: undefined, metadata: {} },
+        { checkpointStore: createMemoryCheckpointStore() },
+      ),
+    ).rejects.toBeInstanceOf(CheckpointError);
+  });
+
+  it("refuses to resume a run whose steps were compensated", async () => {
+    const store = createMemoryCheckpointStore();
+    const calls: string[] = [];
+    let healthy = false;
+    const intent = defineIntent<void, string>({
+      name: "ticketing",
+      steps: [
+        {
+          id: "create",
+          async run() {
+            calls.push("create");
+            return "ticket-1";
+          },
+          async compensate() {
+            calls.push("undo-create");
+          },
+        },
+        {
+          id: "send",
+          async run(ctx) {
+            calls.push("send");
+            if (!healthy) throw new Error("mail server down");
+            return `sent ${ctx.outputs!["create"]}`;
+          },
+        },
+      ],
+    });
+
+    const first = await runIntent(
+      intent,
+      { input: undefined, metadata: {} },
+      { runId: "run-c", checkpointStore: store },
+    );
+
+    expect(first.success).toBe(false);
+    expect(calls).toEqual(["create", "send", "undo-create"]);
+    expect(await store.load("run-c")).toMatchObject({
+      compensated: { stepIds: ["create"] },
+    });
+
+    healthy = true;
+    const resuming = resumeIntent(
+      intent,
+      "run-c",
+      { input: undefined, metadata: {} },
+      { checkpointStore: store },
+    );
+
+    await expect(resuming).rejects.toBeInstanceOf(CheckpointError);
+    await expect(resuming).rejects.toThrow(/compensated/);
+    expect(calls).toEqual(["create", "send", "undo-create"]);
+  });
+
+  it("resumes a dependency graph without re-running completed branches", async () => {
+    const calls: string[] = [];
+    let healthy = false;
+    const store = createMemoryCheckpointStore();
+
+    const intent = defineIntent<void, string>({
+      name: "graph-checkpoint-intent",
+      steps: [
+        {
+          id: "a",
+          dependsOn: [],
+          async run() {
+            calls.push("a");
+            return "A";
+          },
+        },
+        {
+          id: "b",
+          dependsOn: [],
+          async run() {
+            calls.push("b");
+            if (!healthy) throw new Error("b down");
+            return "B";
+          },
+        },
+        {
+          id: "join",
+          dependsOn: ["a", "b"],
+          async run(ctx) {
+            calls.push("join");
+            return `${ctx.outputs!["a"]}+${ctx.outputs!["b"]}`;
+          },
+        },
+      ],
+    });
+
+    const first = await runIntent(
+      intent,
+      { input: undefined, metadata: {} },
+      { runId: "graph-run", checkpointStore: store },
+    );
+    expect(first.success).toBe(false);
+
+    healthy = true;
+    const resumed = await resumeIntent(
+      intent,
+      "graph-run",
+      { input: undefined, metadata: {} },
+      { checkpointStore: store },
+    );
+
+    expect(resumed.success).toBe(true);
+    expect(resumed.output).toBe("A+B");
+    expect(calls).toEqual(["a", "b", "b", "join"]);
+  });
+});
+
+describe("checkpointing – filesystem store", () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it("persists checkpoints as files and resumes from them", async () => {
+    directory = await mkdtemp(join(tmpdir(), "fabricks-checkpoints-"));
+
+    await expectResumeSkipsCompletedSteps(
+      createFileCheckpointStore(join(directory, "nested")),
+    );
+  });
+
+  it("returns undefined for unknown runs and deletes checkpoints", async () => {
+    directory = await mkdtemp(join(tmpdir(), "fabricks-checkpoints-"));
+    const store = createFileCheckpointStore(directory);
+
+    expect(await store.load("nope")).toBeUndefined();
+
+    await store.save({
+      runId: "run/with/slashes",
+      intentName: "x",
+      completedStepIds: [],
+      outputs: {},
+      metadata: {},
+      updatedAt: 0,
+    });
+    expect((await store.load("run/with/slashes"))?.intentName).toBe("x");
+
+    await store.delete("run/with/slashes");
+    expect(await store.load("run/with/slashes")).toBeUndefined();
+  });
+});
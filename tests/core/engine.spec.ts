@@ -148,8 +148,17 @@
 
 import { describe, it, expect } from "vitest";
 import { defineIntent } from "../../src/core/intent";
-import { runIntent } from "../../src/core/engine";
-import type { TelemetryEvent } from "../../src/types";
+import { runIntent, streamIntent } from "../../src/core/engine";
+import {
+  CancelledError,
+  Bulkhead,
+  CircuitBreaker,
+  DeadlineExceededError,
+  RetryExhaustedError,
+  TimeOutError,
+} from "../../src/core/policies";
+import { FallbackError, ProviderError, StepExecutionError } from "../../src/utils/error";
+import type { IntentStreamEvent, TelemetryEvent } from "../../src/types";
 
 // =====================================================
 // FALLBACK BEHAVIOR
@@ -217,6 +226,85 @@ describe("runIntent – fallback behavior", () => {
     expect(intentFinished).toBeDefined();
     expect(intentFinished!.success).toBe(true);
   });
+
+  it("tries an ordered fallback chain until one tier succeeds", async () => {
+    const calls: string[] = [];
+
+    const intent = defineIntent<void, string>({
+      name: "cascade-intent",
+      steps: [
+        {
+          id: "gpt-4.1",
+          fallbackTo: ["gpt-4.1-mini", "cached-answer"],
+          async run() {
+            calls.push("gpt-4.1");
+            throw new Error("rate limited");
+          },
+        },
+        {
+          id: "gpt-4.1-mini",
+          async run() {
+            calls.push("gpt-4.1-mini");
+            throw new Error("overloaded");
+          },
+        },
+        {
+          id: "cached-answer",
+          async run() {
+            calls.push("cached-answer");
+            return "cached";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("cached");
+    expect(calls).toEqual(["gpt-4.1", "gpt-4.1-mini", "cached-answer"]);
+
+    const hops = result.trace.filter((e) => e.type === "fallback_triggered");
+    expect(hops.map((e) => [e.stepId, e.fallbackStepId, e.tier])).toEqual([
+      ["gpt-4.1", "gpt-4.1-mini", 1],
+      ["gpt-4.1", "cached-answer", 2],
+    ]);
+    expect(hops[1].error!.cause).toMatchObject({ message: "overloaded" });
+  });
+
+  it("follows a fallback's own fallbackTo before the next listed tier", async () => {
+    const calls: string[] = [];
+    const fail = (id: string) => async () => {
+      calls.push(id);
+      throw new Error(`${id} failed`);
+    };
+
+    const intent = defineIntent<void, string>({
+      name: "nested-cascade-intent",
+      steps: [
+        { id: "primary", fallbackTo: ["b", "c"], run: fail("primary") },
+        { id: "b", fallbackTo: "d", run: fail("b") },
+        { id: "c", run: fail("c") },
+        { id: "d", run: fail("d") },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    expect(result.success).toBe(false);
+    expect(calls).toEqual(["primary", "b", "d", "c"]);
+    // the intent fails with every tier's error, the last one as its cause
+    expect(result.error).toBeInstanceOf(FallbackError);
+    const fallbackError = result.error as FallbackError;
+    expect(fallbackError.errors.map((e) => e.stepId)).toEqual([
+      "primary",
+      "b",
+      "d",
+      "c",
+    ]);
+    expect(fallbackError.cause).toBe(fallbackError.errors[3]);
+    expect(fallbackError.errors[3].cause).toMatchObject({ message: "c failed" });
+  });
 });
 
 
@@ -279,6 +367,79 @@ describe("runIntent – retry behavior", () => {
     expect(intentFinished).toBeDefined();
     expect(intentFinished!.success).toBe(true);
   });
+
+  it("wraps a step that exhausts its retries in a StepExecutionError", async () => {
+    const intent = defineIntent<void, string>({
+      name: "exhausted-intent",
+      steps: [
+        {
+          id: "primary",
+          retry: { maxAttemps: 3 },
+          async run() {
+            throw new Error("still failing");
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+    const error = result.error as StepExecutionError;
+
+    expect(error).toBeInstanceOf(StepExecutionError);
+    expect(error).toMatchObject({
+      intentName: "exhausted-intent",
+      stepId: "primary",
+      attempt: 3,
+      category: "user",
+    });
+    expect(error.cause).toBeInstanceOf(RetryExhaustedError);
+    expect((error.cause as RetryExhaustedError).cause).toMatchObject({
+      message: "still failing",
+    });
+    expect(error.attempts.map((a) => a.attempt)).toEqual([1, 2, 3]);
+
+    const finished = result.trace.find((e) => e.type === "step_finished");
+    expect(finished).toMatchObject({ stepId: "primary", attempts: 3 });
+    expect(finished!.attemptErrors).toHaveLength(3);
+  });
+
+  it("waits out backoff delays on the clock passed in RunOptions", async () => {
+    let time = 0;
+    const sleeps: number[] = [];
+    let callCount = 0;
+
+    const intent = defineIntent<void, string>({
+      name: "backoff-intent",
+      steps: [
+        {
+          id: "primary",
+          retry: { maxAttemps: 3, initialDelayMs: 30_000 },
+          async run() {
+            callCount++;
+            if (callCount < 3) throw new Error("rate limited");
+            return "ok";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(
+      intent,
+      { input: undefined, metadata: {} },
+      {
+        clock: {
+          now: () => time,
+          async sleep(ms) {
+            sleeps.push(ms);
+            time += ms;
+          },
+        },
+      },
+    );
+
+    expect(result.success).toBe(true);
+    expect(sleeps).toEqual([30_000, 60_000]);
+  });
 });
 
 
@@ -467,3 +628,1304 @@ describe("runIntent – integration with providers", () => {
     expect(startedSteps).toEqual(["prepare-prompt", "call-llm"]);
   });
 });
+
+
+// =====================================================
+// DAG EXECUTION (dependsOn)
+// =====================================================
+
+describe("runIntent – dependency graph execution", () => {
+  it("fails instead of silently skipping steps that can never start", async () => {
+    const ran: string[] = [];
+    // built by hand: defineIntent would reject this graph
+    const intent = {
+      name: "stranded-graph",
+      steps: [
+        { id: "a", dependsOn: [], fallbackTo: "b", run: async () => ran.push("a") },
+        { id: "b", run: async () => ran.push("b") },
+        { id: "c", dependsOn: ["b"], run: async () => ran.push("c") },
+      ],
+    };
+
+    const result = await runIntent(intent, { input: {}, metadata: {} });
+
+    expect(ran).toEqual(["a"]);
+    expect(result.success).toBe(false);
+    expect((result.error as Error).message).toMatch(/without running step\(s\) "c"/);
+  });
+
+  it("runs a fallback target with dependencies only in place of the failed step", async () => {
+    const ran: string[] = [];
+    // built by hand: defineIntent would reject a fallback target with dependsOn
+    const intent = {
+      name: "fallback-with-deps",
+      steps: [
+        {
+          id: "a",
+          fallbackTo: "c",
+          run: async () => {
+            ran.push("a");
+            throw new Error("a failed");
+          },
+        },
+        { id: "b", run: async () => ran.push("b") },
+        { id: "c", dependsOn: ["b"], run: async () => ran.push("c") },
+      ],
+    };
+
+    await runIntent(intent, { input: {}, metadata: {} });
+
+    expect(ran.filter((id) => id === "c")).toHaveLength(1);
+  });
+
+  it("runs independent branches concurrently and joins on dependents", async () => {
+    const telemetryEvents: TelemetryEvent[] = [];
+    const log: string[] = [];
+
+    const delay = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+
+    const intent = defineIntent<void, string>({
+      name: "dag-intent",
+      steps: [
+        {
+          id: "retrieve",
+          dependsOn: [],
+          async run() {
+            log.push("retrieve");
+            return "docs";
+          },
+        },
+        {
+          id: "slow-branch",
+          dependsOn: ["retrieve"],
+          async run() {
+            log.push("slow-branch:start");
+            await delay(20);
+            log.push("slow-branch:end");
+            return "slow";
+          },
+        },
+        {
+          id: "fast-branch",
+          dependsOn: ["retrieve"],
+          async run() {
+            log.push("fast-branch:start");
+            await delay(1);
+            log.push("fast-branch:end");
+            return "fast";
+          },
+        },
+        {
+          id: "merge",
+          dependsOn: ["slow-branch", "fast-branch"],
+          async run() {
+            log.push("merge");
+            return "merged";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, {
+      input: undefined,
+      metadata: {},
+      telemetry: (event) => telemetryEvents.push(event),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("merged");
+
+    // Both branches started before either finished, and the fast one
+    // finished first even though it is declared second.
+    expect(log).toEqual([
+      "retrieve",
+      "slow-branch:start",
+      "fast-branch:start",
+      "fast-branch:end",
+      "slow-branch:end",
+      "merge",
+    ]);
+
+    // step_started follows declaration order for steps that become ready together
+    const startedSteps = telemetryEvents
+      .filter((e) => e.type === "step_started")
+      .map((e) => e.stepId);
+    expect(startedSteps).toEqual([
+      "retrieve",
+      "slow-branch",
+      "fast-branch",
+      "merge",
+    ]);
+  });
+
+  it("does not start dependents of a failed step and reports the failure", async () => {
+    const executed: string[] = [];
+
+    const intent = defineIntent<void, string>({
+      name: "dag-failure-intent",
+      steps: [
+        {
+          id: "a",
+          dependsOn: [],
+          async run() {
+            executed.push("a");
+            throw new Error("a failed");
+          },
+        },
+        {
+          id: "b",
+          dependsOn: ["a"],
+          async run() {
+            executed.push("b");
+            return "b";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(StepExecutionError);
+    expect((result.error as StepExecutionError).cause).toMatchObject({
+      message: "a failed",
+    });
+    expect(executed).toEqual(["a"]);
+  });
+
+  it("uses fallbackTo inside a graph without scheduling the fallback on its own", async () => {
+    const executed: string[] = [];
+
+    const intent = defineIntent<void, string>({
+      name: "dag-fallback-intent",
+      steps: [
+        {
+          id: "primary",
+          dependsOn: [],
+          fallbackTo: "backup",
+          async run() {
+            executed.push("primary");
+            return "primary-output";
+          },
+        },
+        {
+          id: "backup",
+          async run() {
+            executed.push("backup");
+            return "backup-output";
+          },
+        },
+        {
+          id: "final",
+          dependsOn: ["primary"],
+          async run() {
+            executed.push("final");
+            return "final-output";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("final-output");
+    expect(executed).toEqual(["primary", "final"]);
+  });
+});
+
+
+// =====================================================
+// STEP OUTPUTS ON THE EXECUTION CONTEXT
+// =====================================================
+
+describe("runIntent – ctx.outputs", () => {
+  it("exposes earlier step outputs to later steps", async () => {
+    const intent = defineIntent<void, string>({
+      name: "outputs-intent",
+      steps: [
+        {
+          id: "retrieve",
+          async run() {
+            return "doc-1, doc-2";
+          },
+        },
+        {
+          id: "summarize",
+          async run(ctx) {
+            return `summary of ${ctx.outputs!["retrieve"]}`;
+          },
+        },
+      ],
+    });
+
+    const ctx = { input: undefined, metadata: {} };
+    const result = await runIntent(intent, ctx);
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("summary of doc-1, doc-2");
+    // the caller's context object is left untouched
+    expect(ctx).toEqual({ input: undefined, metadata: {} });
+  });
+
+  it("records a fallback's output under the original step id", async () => {
+    const seen: Record<string, unknown>[] = [];
+
+    const intent = defineIntent<void, string>({
+      name: "outputs-fallback-intent",
+      steps: [
+        {
+          id: "retrieve",
+          dependsOn: [],
+          fallbackTo: "retrieve-cached",
+          async run() {
+            throw new Error("search is down");
+          },
+        },
+        {
+          id: "retrieve-cached",
+          async run() {
+            return "cached-docs";
+          },
+        },
+        {
+          id: "summarize",
+          dependsOn: ["retrieve"],
+          async run(ctx) {
+            seen.push({ ...ctx.outputs });
+            return `summary of ${ctx.outputs!["retrieve"]}`;
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("summary of cached-docs");
+    expect(seen).toEqual([
+      { retrieve: "cached-docs", "retrieve-cached": "cached-docs" },
+    ]);
+  });
+});
+
+
+// =====================================================
+// CONDITIONAL ROUTING
+// =====================================================
+
+describe("runIntent – conditional routing", () => {
+  const makeSupportIntent = (label: string) =>
+    defineIntent<void, string>({
+      name: "support-intent",
+      steps: [
+        {
+          id: "classify",
+          async run() {
+            return label;
+          },
+          route: { refund: "refund", escalate: "escalate", question: "answer" },
+        },
+        {
+          id: "refund",
+          async run() {
+            return "refund issued";
+          },
+          next: () => undefined,
+        },
+        {
+          id: "escalate",
+          async run() {
+            return "escalated";
+          },
+          next: () => undefined,
+        },
+        {
+          id: "answer",
+          async run() {
+            return "answered";
+          },
+        },
+      ],
+    });
+
+  it("follows the route matching the step output and records the branch", async () => {
+    const result = await runIntent(makeSupportIntent("escalate"), {
+      input: undefined,
+      metadata: {},
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("escalated");
+
+    const startedSteps = result.trace
+      .filter((e) => e.type === "step_started")
+      .map((e) => e.stepId);
+    expect(startedSteps).toEqual(["classify", "escalate"]);
+
+    const routed = result.trace.filter((e) => e.type === "step_routed");
+    expect(routed).toMatchObject([
+      {
+        stepId: "classify",
+        nextStepId: "escalate",
+        reason: "route",
+        routeKey: "escalate",
+      },
+      { stepId: "escalate", nextStepId: undefined, reason: "next" },
+    ]);
+  });
+
+  it("fails the intent when no route matches the output", async () => {
+    const result = await runIntent(makeSupportIntent("spam"), {
+      input: undefined,
+      metadata: {},
+    });
+
+    expect(result.success).toBe(false);
+    expect((result.error as Error).message).toContain(
+      'no route for output "spam"',
+    );
+  });
+
+  it("lets next() pick a step based on the output and context", async () => {
+    const intent = defineIntent<{ score: number }, string>({
+      name: "next-intent",
+      steps: [
+        {
+          id: "score",
+          async run(ctx) {
+            return String(ctx.input.score);
+          },
+          next: (output) => (Number(output) > 0.5 ? "accept" : "reject"),
+        },
+        {
+          id: "reject",
+          async run() {
+            return "rejected";
+          },
+        },
+        {
+          id: "accept",
+          async run() {
+            return "accepted";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, {
+      input: { score: 0.9 },
+      metadata: {},
+    });
+
+    expect(result.output).toBe("accepted");
+  });
+});
+
+
+// =====================================================
+// CANCELLATION
+// =====================================================
+
+describe("runIntent – cancellation", () => {
+  it("aborts the in-flight step, skips the rest and emits intent_cancelled", async () => {
+    const controller = new AbortController();
+    const executed: string[] = [];
+    let stepSignal: AbortSignal | undefined;
+
+    const intent = defineIntent<void, string>({
+      name: "cancel-intent",
+      steps: [
+        {
+          id: "long-call",
+          async run(ctx) {
+            executed.push("long-call");
+            stepSignal = ctx.signal;
+            // a cooperative step that only settles once it is aborted
+            return new Promise<string>((_, reject) => {
+              ctx.signal!.addEventListener("abort", () =>
+                reject(new Error("aborted by signal")),
+              );
+            });
+          },
+        },
+        {
+          id: "after",
+          async run() {
+            executed.push("after");
+            return "never";
+          },
+        },
+      ],
+    });
+
+    const pending = runIntent(
+      intent,
+      { input: undefined, metadata: {} },
+      { signal: controller.signal },
+    );
+    setTimeout(() => controller.abort(), 5);
+    const result = await pending;
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(CancelledError);
+    expect(stepSignal!.aborted).toBe(true);
+    expect(executed).toEqual(["long-call"]);
+
+    const types = result.trace.map((e) => e.type);
+    expect(types.slice(-2)).toEqual(["intent_cancelled", "intent_finished"]);
+  });
+
+  it("does not start any step when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    let ran = false;
+
+    const intent = defineIntent<void, string>({
+      name: "pre-cancelled-intent",
+      steps: [
+        {
+          id: "only",
+          async run() {
+            ran = true;
+            return "ok";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(
+      intent,
+      { input: undefined, metadata: {} },
+      { signal: controller.signal },
+    );
+
+    expect(ran).toBe(false);
+    expect(result.success).toBe(false);
+    expect(result.trace.map((e) => e.type)).toEqual([
+      "intent_started",
+      "intent_cancelled",
+      "intent_finished",
+    ]);
+  });
+
+  it("aborts ctx.signal when the step times out", async () => {
+    let stepSignal: AbortSignal | undefined;
+
+    const intent = defineIntent<void, string>({
+      name: "timeout-signal-intent",
+      steps: [
+        {
+          id: "slow",
+          timeoutMs: 5,
+          async run(ctx) {
+            stepSignal = ctx.signal;
+            await new Promise((resolve) => setTimeout(resolve, 30));
+            return "too-late";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    expect(result.success).toBe(false);
+    expect(stepSignal!.aborted).toBe(true);
+    expect(stepSignal!.reason).toBeInstanceOf(TimeOutError);
+  });
+});
+
+
+// =====================================================
+// INTENT DEADLINES
+// =====================================================
+
+describe("runIntent – deadlines", () => {
+  const sleep = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  it("fails the run with DeadlineExceededError once the budget is spent", async () => {
+    const executed: string[] = [];
+    const remaining: number[] = [];
+
+    const intent = defineIntent<void, string>({
+      name: "deadline-intent",
+      deadlineMs: 30,
+      steps: [
+        {
+          id: "first",
+          async run(ctx) {
+            executed.push("first");
+            remaining.push(ctx.remainingMs!());
+            return "first";
+          },
+        },
+        {
+          id: "slow",
+          // the step's own timeout is far above the remaining budget
+          timeoutMs: 1000,
+          retry: { maxAttemps: 5 },
+          async run() {
+            executed.push("slow");
+            await sleep(100);
+            return "slow";
+          },
+        },
+        {
+          id: "never",
+          async run() {
+            executed.push("never");
+            return "never";
+          },
+        },
+      ],
+    });
+
+    const startedAt = Date.now();
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(DeadlineExceededError);
+    expect(Date.now() - startedAt).toBeLessThan(100);
+    // the clamped timeout is not retried
+    expect(executed).toEqual(["first", "slow"]);
+    expect(remaining[0]).toBeGreaterThan(0);
+    expect(remaining[0]).toBeLessThanOrEqual(30);
+
+    const types = result.trace.map((e) => e.type);
+    expect(types.slice(-2)).toEqual(["deadline_exceeded", "intent_finished"]);
+  });
+
+  it("keeps the provider error a step was waiting out when the deadline ends the run", async () => {
+    const limited = new ProviderError("429", "openai", "rate_limit", {
+      retryAfterMs: 30_000,
+      requestId: "req_123",
+    });
+
+    const intent = defineIntent<void, string>({
+      name: "deadline-retry-after-intent",
+      deadlineMs: 30,
+      steps: [
+        {
+          id: "chat",
+          retry: { maxAttemps: 3 },
+          async run() {
+            throw limited;
+          },
+        },
+      ],
+    });
+
+    const startedAt = Date.now();
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(result.error).toBeInstanceOf(DeadlineExceededError);
+    expect(result.error).toMatchObject({
+      cause: { name: "StepExecutionError", cause: { name: "DeadlineExceededError", cause: limited } },
+    });
+    expect(result.trace.map((e) => e.type).slice(-2)).toEqual([
+      "deadline_exceeded",
+      "intent_finished",
+    ]);
+  });
+
+  it("lets runIntent override the intent's deadline per call", async () => {
+    const intent = defineIntent<void, string>({
+      name: "deadline-override-intent",
+      deadlineMs: 5,
+      steps: [
+        {
+          id: "a",
+          async run() {
+            await sleep(20);
+            return "done";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(
+      intent,
+      { input: undefined, metadata: {} },
+      { deadlineMs: 1000 },
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("done");
+  });
+
+  it("does not jump to a fallback when the deadline is exhausted", async () => {
+    let fallbackRan = false;
+
+    const intent = defineIntent<void, string>({
+      name: "deadline-fallback-intent",
+      deadlineMs: 10,
+      steps: [
+        {
+          id: "primary",
+          fallbackTo: "fallback",
+          async run() {
+            await sleep(50);
+            return "primary";
+          },
+        },
+        {
+          id: "fallback",
+          async run() {
+            fallbackRan = true;
+            return "fallback";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(DeadlineExceededError);
+    expect(fallbackRan).toBe(false);
+  });
+});
+
+
+// =====================================================
+// SAGA COMPENSATION
+// =====================================================
+
+describe("runIntent – compensation", () => {
+  it("undoes completed steps in reverse order when the intent fails", async () => {
+    const undone: string[] = [];
+    let ticketAttempts = 0;
+
+    const intent = defineIntent<void, string>({
+      name: "saga-intent",
+      steps: [
+        {
+          id: "create-ticket",
+          async run() {
+            return "ticket-1";
+          },
+          // the first undo attempt fails, its own retry policy recovers
+          compensation: { retry: { maxAttemps: 2 } },
+          async compensate(_ctx, output) {
+            ticketAttempts++;
+            if (ticketAttempts === 1) throw new Error("ticket API flaked");
+            undone.push(`close ${output}`);
+          },
+        },
+        {
+          id: "insert-row",
+          async run() {
+            return "row-7";
+          },
+          async compensate(_ctx, output) {
+            undone.push(`delete ${output}`);
+          },
+        },
+        {
+          id: "notify",
+          async run() {
+            throw new Error("mail server down");
+          },
+          async compensate() {
+            undone.push("never: this step did not complete");
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    expect(result.success).toBe(false);
+    expect((result.error as StepExecutionError).cause).toMatchObject({
+      message: "mail server down",
+    });
+    expect(undone).toEqual(["delete row-7", "close ticket-1"]);
+    expect(result.compensations).toEqual([
+      { stepId: "insert-row", success: true },
+      { stepId: "create-ticket", success: true },
+    ]);
+
+    const compensationEvents = result.trace
+      .filter((e) => e.type.startsWith("compensation_"))
+      .map((e) => `${e.type}:${e.stepId}`);
+    expect(compensationEvents).toEqual([
+      "compensation_started:insert-row",
+      "compensation_finished:insert-row",
+      "compensation_started:create-ticket",
+      "compensation_finished:create-ticket",
+    ]);
+  });
+
+  it("reports failed compensations and still runs the remaining ones", async () => {
+    const undone: string[] = [];
+
+    const intent = defineIntent<void, string>({
+      name: "saga-failure-intent",
+      steps: [
+        {
+          id: "a",
+          async run() {
+            return "a";
+          },
+          async compensate() {
+            undone.push("a");
+          },
+        },
+        {
+          id: "b",
+          async run() {
+            return "b";
+          },
+          async compensate() {
+            throw new Error("cannot undo b");
+          },
+        },
+        {
+          id: "c",
+          async run() {
+            throw new Error("c failed");
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    expect(undone).toEqual(["a"]);
+    expect(result.compensations).toMatchObject([
+      { stepId: "b", success: false },
+      { stepId: "a", success: true },
+    ]);
+    expect((result.compensations![0].error as Error).message).toBe(
+      "cannot undo b",
+    );
+  });
+
+  it("does not compensate anything when the intent succeeds", async () => {
+    let compensated = false;
+
+    const intent = defineIntent<void, string>({
+      name: "saga-success-intent",
+      steps: [
+        {
+          id: "a",
+          async run() {
+            return "a";
+          },
+          async compensate() {
+            compensated = true;
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    expect(result.success).toBe(true);
+    expect(compensated).toBe(false);
+    expect(result.compensations).toBeUndefined();
+  });
+});
+
+
+// =====================================================
+// CIRCUIT BREAKERS
+// =====================================================
+
+describe("runIntent – circuit breakers", () => {
+  it("shares one breaker across runs and falls back while it is open", async () => {
+    const breaker = new CircuitBreaker({ name: "llm", minimumCalls: 2 });
+    let primaryCalls = 0;
+
+    const intent = defineIntent<void, string>({
+      name: "breaker-intent",
+      steps: [
+        {
+          id: "primary",
+          circuitBreaker: breaker,
+          retry: { maxAttemps: 3 },
+          fallbackTo: "cached",
+          async run() {
+            primaryCalls++;
+            throw new Error("provider down");
+          },
+        },
+        {
+          id: "cached",
+          async run() {
+            return "cached answer";
+          },
+        },
+      ],
+    });
+
+    // first run: two failed attempts open the circuit, the third fails fast
+    const events: TelemetryEvent[] = [];
+    const first = await runIntent(intent, {
+      input: undefined,
+      metadata: {},
+      telemetry: (event) => events.push(event),
+    });
+    expect(first.output).toBe("cached answer");
+    expect(primaryCalls).toBe(2);
+    expect(
+      events.find((e) => e.type === "circuit_state_changed"),
+    ).toMatchObject({ stepId: "primary", circuit: "llm", circuitState: "open" });
+
+    // second run never reaches the provider
+    const second = await runIntent(intent, { input: undefined, metadata: {} });
+    expect(second.output).toBe("cached answer");
+    expect(primaryCalls).toBe(2);
+
+    const hop = second.trace.find((e) => e.type === "fallback_triggered");
+    expect(hop!.error).toMatchObject({
+      name: "StepExecutionError",
+      category: "provider",
+      cause: { name: "CircuitOpenError" },
+    });
+  });
+});
+
+// =====================================================
+// BULKHEADS AND RATE LIMITS
+// =====================================================
+
+describe("runIntent – bulkheads", () => {
+  it("limits concurrency across runs and routes overflow to the fallback", async () => {
+    const bulkhead = new Bulkhead({ name: "llm", maxConcurrent: 1, maxQueued: 1 });
+    let running = 0;
+    let peak = 0;
+
+    const intent = defineIntent<void, string>({
+      name: "bulkhead-intent",
+      steps: [
+        {
+          id: "call-llm",
+          bulkhead,
+          retry: { maxAttemps: 3 },
+          fallbackTo: "shed",
+          // "shed" only runs as the fallback
+          next: () => undefined,
+          async run() {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            running--;
+            return "answer";
+          },
+        },
+        {
+          id: "shed",
+          async run() {
+            return "try again later";
+          },
+        },
+      ],
+    });
+
+    const results = await Promise.all(
+      [1, 2, 3].map(() => runIntent(intent, { input: undefined, metadata: {} })),
+    );
+
+    expect(peak).toBe(1);
+    expect(results.map((r) => r.output)).toEqual([
+      "answer",
+      "answer",
+      "try again later",
+    ]);
+
+    const hop = results[2].trace.find((e) => e.type === "fallback_triggered");
+    expect(hop!.error).toMatchObject({
+      name: "StepExecutionError",
+      category: "rate_limit",
+      cause: { name: "BulkheadFullError" },
+    });
+  });
+});
+
+// =====================================================
+// HEDGED REQUESTS
+// =====================================================
+
+describe("runIntent – hedged requests", () => {
+  it("races a hedge against a slow attempt and keeps the faster result", async () => {
+    const events: TelemetryEvent[] = [];
+    let calls = 0;
+    let loserAborted = false;
+
+    const intent = defineIntent<void, string>({
+      name: "hedge-intent",
+      steps: [
+        {
+          id: "chat",
+          hedge: { afterMs: 10 },
+          timeoutMs: 2000,
+          async run(ctx) {
+            calls++;
+            const slow = calls === 1;
+            return new Promise<string>((resolve, reject) => {
+              const timer = setTimeout(() => resolve(slow ? "slow" : "fast"), slow ? 1000 : 5);
+              ctx.signal!.addEventListener("abort", () => {
+                clearTimeout(timer);
+                loserAborted = slow;
+                reject(ctx.signal!.reason);
+              });
+            });
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, {
+      input: undefined,
+      metadata: {},
+      telemetry: (event) => events.push(event),
+    });
+
+    expect(result.output).toBe("fast");
+    expect(calls).toBe(2);
+    expect(loserAborted).toBe(true);
+    expect(events.filter((e) => e.type.startsWith("hedge_")).map((e) => e.type)).toEqual([
+      "hedge_started",
+      "hedge_won",
+    ]);
+  });
+
+  it("makes every hedged attempt take a bulkhead slot of its own", async () => {
+    const events: TelemetryEvent[] = [];
+    const bulkhead = new Bulkhead({ name: "llm", maxConcurrent: 1 });
+    let running = 0;
+    let mostRunning = 0;
+
+    const intent = defineIntent<void, string>({
+      name: "hedge-bulkhead",
+      steps: [
+        {
+          id: "chat",
+          hedge: { afterMs: 10 },
+          bulkhead,
+          async run() {
+            running++;
+            mostRunning = Math.max(mostRunning, running);
+            await new Promise((resolve) => setTimeout(resolve, 40));
+            running--;
+            return "done";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, {
+      input: undefined,
+      metadata: {},
+      telemetry: (event) => events.push(event),
+    });
+
+    // the hedge queued behind the original instead of sharing its slot
+    expect(result.output).toBe("done");
+    expect(events.map((e) => e.type)).toContain("hedge_started");
+    expect(mostRunning).toBe(1);
+  });
+
+});
+
+// =====================================================
+// STREAMING
+// =====================================================
+
+describe("streamIntent", () => {
+  it("yields the run's events as they happen, then the result", async () => {
+    const forwarded: TelemetryEvent[] = [];
+    const intent = defineIntent({
+      name: "stream-basic",
+      steps: [
+        { id: "a", run: async () => "A" },
+        { id: "b", run: async () => "B" },
+      ],
+    });
+
+    const items: IntentStreamEvent[] = [];
+    for await (const item of streamIntent(intent, {
+      input: {},
+      metadata: {},
+      telemetry: (e) => forwarded.push(e),
+    })) {
+      items.push(item);
+    }
+
+    const last = items[items.length - 1];
+    expect(last.type).toBe("intent_result");
+    if (last.type !== "intent_result") return;
+
+    expect(last.result.success).toBe(true);
+    expect(last.result.output).toBe("B");
+    expect(items.slice(0, -1)).toEqual(last.result.trace);
+    expect(forwarded).toEqual(last.result.trace);
+  });
+
+  it("pauses the run before its next step while the consumer is behind", async () => {
+    const started: string[] = [];
+    const intent = defineIntent({
+      name: "stream-backpressure",
+      steps: ["a", "b", "c"].map((id) => ({
+        id,
+        run: async () => {
+          started.push(id);
+          return id;
+        },
+      })),
+    });
+
+    const stream = streamIntent(intent, { input: {}, metadata: {} }, { highWaterMark: 2 });
+
+    // first read starts the run; step "a" alone emits more than 2 events
+    await stream.next();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(started).toEqual(["a"]);
+
+    const rest: IntentStreamEvent[] = [];
+    for await (const item of stream) rest.push(item);
+
+    expect(started).toEqual(["a", "b", "c"]);
+    expect(rest[rest.length - 1].type).toBe("intent_result");
+  });
+
+  it("rejects a highWaterMark the run could never get under", async () => {
+    const intent = defineIntent({
+      name: "stream-bad-mark",
+      steps: [{ id: "a", run: async () => "A" }],
+    });
+
+    for (const highWaterMark of [0, -1, NaN, 1.5]) {
+      const stream = streamIntent(intent, { input: {}, metadata: {} }, { highWaterMark });
+      await expect(stream.next()).rejects.toThrow(/highWaterMark must be a positive integer/);
+    }
+  });
+
+  it("stops reading a streamed step while the consumer is behind", async () => {
+    let pulled = 0;
+    const intent = defineIntent({
+      name: "stream-chunk-backpressure",
+      steps: [
+        {
+          id: "draft",
+          run: async function* () {
+            for (let i = 0; i < 50; i++) {
+              pulled++;
+              yield `t${i}`;
+            }
+          },
+        },
+      ],
+    });
+
+    const stream = streamIntent(intent, { input: {}, metadata: {} }, { highWaterMark: 5 });
+
+    await stream.next();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(pulled).toBeLessThan(10);
+
+    const rest: IntentStreamEvent[] = [];
+    for await (const item of stream) rest.push(item);
+
+    expect(pulled).toBe(50);
+    expect(rest.filter((e) => e.type === "step_chunk")).toHaveLength(50);
+  });
+
+  it("cancels the run when the consumer stops reading", async () => {
+    let sawAbort = false;
+    const compensated: string[] = [];
+    const intent = defineIntent({
+      name: "stream-break",
+      steps: [
+        {
+          id: "a",
+          run: async () => "A",
+          compensate: async () => {
+            compensated.push("a");
+          },
+        },
+        {
+          id: "slow",
+          run: (ctx) =>
+            new Promise((_, reject) => {
+              ctx.signal?.addEventListener("abort", () => {
+                sawAbort = true;
+                reject(ctx.signal?.reason);
+              });
+            }),
+        },
+      ],
+    });
+
+    for await (const item of streamIntent(intent, { input: {}, metadata: {} })) {
+      if (item.type === "step_started" && item.stepId === "slow") break;
+    }
+
+    expect(sawAbort).toBe(true);
+    expect(compensated).toEqual(["a"]);
+  });
+});
+
+// =====================================================
+// STREAMED STEP OUTPUT
+// =====================================================
+
+describe("runIntent – streamed step output", () => {
+  async function* tokens(parts: string[], delayMs = 0) {
+    for (const part of parts) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      yield part;
+    }
+  }
+
+  it("emits step_chunk events and assembles the output", async () => {
+    const intent = defineIntent({
+      name: "stream-step",
+      steps: [{ id: "draft", run: () => tokens(["Hel", "lo", "!"]) }],
+    });
+
+    const result = await runIntent(intent, { input: {}, metadata: {} });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("Hello!");
+
+    const chunks = result.trace.filter((e) => e.type === "step_chunk");
+    expect(chunks.map((e) => [e.chunk, e.chunkIndex])).toEqual([
+      ["Hel", 0],
+      ["lo", 1],
+      ["!", 2],
+    ]);
+
+    const finished = result.trace.find((e) => e.type === "step_finished");
+    expect(finished?.output).toBe("Hello!");
+  });
+
+  it("gives later steps the assembled output and a replayable stream", async () => {
+    const seen: unknown[] = [];
+    const intent = defineIntent({
+      name: "stream-downstream",
+      steps: [
+        {
+          id: "draft",
+          run: () => tokens(["a", "b"]),
+          assemble: (chunks) => chunks.length,
+        },
+        {
+          id: "review",
+          run: async (ctx) => {
+            for await (const chunk of ctx.streams!.draft) seen.push(chunk);
+            for await (const chunk of ctx.streams!.draft) seen.push(chunk);
+            return ctx.outputs!.draft;
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: {}, metadata: {} });
+
+    expect(result.output).toBe(2);
+    expect(seen).toEqual(["a", "b", "a", "b"]);
+  });
+
+  it("retries a stream that stalls for longer than idleTimeoutMs", async () => {
+    let calls = 0;
+    const intent = defineIntent({
+      name: "stream-idle",
+      steps: [
+        {
+          id: "draft",
+          idleTimeoutMs: 20,
+          retry: { maxAttemps: 2, initialDelayMs: 0 },
+          run: () => {
+            calls++;
+            return tokens(["x", "y"], calls === 1 ? 100 : 0);
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: {}, metadata: {} });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("xy");
+    expect(calls).toBe(2);
+    expect(result.trace.some((e) => e.type === "timeout_fired")).toBe(true);
+  });
+
+  it("stamps the chunks of a retried stream with their attempt", async () => {
+    let calls = 0;
+    const intent = defineIntent({
+      name: "stream-retry",
+      steps: [
+        {
+          id: "draft",
+          retry: { maxAttemps: 2, initialDelayMs: 0 },
+          run: async function* () {
+            calls++;
+            yield "Hel";
+            if (calls === 1) throw new Error("connection reset");
+            yield "lo";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: {}, metadata: {} });
+
+    expect(result.output).toBe("Hello");
+    const chunks = result.trace.filter((e) => e.type === "step_chunk");
+    expect(chunks.map((e) => [e.attempt, e.chunkIndex, e.chunk])).toEqual([
+      [1, 0, "Hel"],
+      [2, 0, "Hel"],
+      [2, 1, "lo"],
+    ]);
+    expect(chunks.every((e) => e.hedge === undefined)).toBe(true);
+  });
+
+  it("tells the streams of hedged attempts apart", async () => {
+    let calls = 0;
+    const intent = defineIntent({
+      name: "stream-hedge",
+      steps: [
+        {
+          id: "draft",
+          hedge: { afterMs: 10 },
+          run: () => {
+            calls++;
+            return calls === 1 ? tokens(["slow", "er"], 40) : tokens(["fast"]);
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: {}, metadata: {} });
+
+    expect(result.output).toBe("fast");
+    const chunks = result.trace.filter((e) => e.type === "step_chunk");
+    expect(chunks.map((e) => [e.hedge, e.chunkIndex, e.chunk])).toEqual([[1, 0, "fast"]]);
+    expect(chunks[0].attempt).toBe(1);
+  });
+
+  it("applies timeoutMs to the whole stream", async () => {
+    const intent = defineIntent({
+      name: "stream-timeout",
+      steps: [
+        {
+          id: "draft",
+          timeoutMs: 30,
+          idleTimeoutMs: 100,
+          run: () => tokens(["a", "b", "c", "d"], 15),
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: {}, metadata: {} });
+
+    expect(result.success).toBe(false);
+    expect((result.error as StepExecutionError).cause).toBeInstanceOf(TimeOutError);
+  });
+});
@@ -108,6 +108,7 @@
  */
 import { describe, it, expect } from "vitest";
 import { defineIntent } from "../../src/core/intent";
+import { IntentConfigurationError } from "../../src/utils/error";
 // If your engine.spec.ts uses "../../src/core/intent" instead,
 // then change this import to match.
 
@@ -135,6 +136,22 @@ describe("defineIntent", () => {
     expect(intent.steps[1].id).toBe("step-2");
   });
 
+  it("throws IntentConfigurationError with the validation category", () => {
+    const makeIntent = () =>
+      defineIntent({
+        name: "no-steps",
+        steps: [],
+      });
+
+    expect(makeIntent).toThrow(IntentConfigurationError);
+    try {
+      makeIntent();
+    } catch (error) {
+      expect((error as IntentConfigurationError).category).toBe("validation");
+      expect((error as IntentConfigurationError).intentName).toBe("no-steps");
+    }
+  });
+
   it("throws if step IDs are not unique", () => {
     const makeIntent = () =>
       defineIntent({
@@ -154,18 +171,153 @@ describe("defineIntent", () => {
     expect(makeIntent).toThrow();
   });
 
-  it.skip(
-    "throws if a fallbackTo points to a missing step (TODO: enable once fallback validation is implemented)",
-    () => {
-      const makeIntent = () =>
-        defineIntent({
-          name: "bad-fallback",
-          steps: [
-            { id: "A", run: async () => "ok", fallbackTo: "MISSING" },
-          ],
-        });
-  
-      expect(makeIntent).toThrow();
-    }
-  );
-});
\ No newline at end of file
+  it("throws if a fallbackTo points to a missing step", () => {
+    const makeIntent = () =>
+      defineIntent({
+        name: "bad-fallback",
+        steps: [
+          { id: "A", run: async () => "ok", fallbackTo: "MISSING" },
+        ],
+      });
+
+    expect(makeIntent).toThrow(/falls back to unknown step "MISSING"/);
+  });
+
+  it("throws if any step in a fallback list is missing", () => {
+    const makeIntent = () =>
+      defineIntent({
+        name: "bad-fallback-list",
+        steps: [
+          { id: "A", run: async () => "ok", fallbackTo: ["B", "MISSING"] },
+          { id: "B", run: async () => "ok" },
+        ],
+      });
+
+    expect(makeIntent).toThrow(/falls back to unknown step "MISSING"/);
+  });
+
+  it("throws if fallbackTo is an empty list", () => {
+    const makeIntent = () =>
+      defineIntent({
+        name: "empty-fallback-list",
+        steps: [{ id: "A", run: async () => "ok", fallbackTo: [] }],
+      });
+
+    expect(makeIntent).toThrow(/non-empty array of step ids/);
+  });
+
+  it("throws if fallback chains form a cycle", () => {
+    const makeIntent = () =>
+      defineIntent({
+        name: "fallback-cycle",
+        steps: [
+          { id: "a", run: async () => 1, fallbackTo: ["b"] },
+          { id: "b", run: async () => 2, fallbackTo: ["c"] },
+          { id: "c", run: async () => 3, fallbackTo: "a" },
+        ],
+      });
+
+    expect(makeIntent).toThrow(/fallback cycle detected \(a -> b -> c -> a\)/);
+  });
+
+  it("accepts an acyclic dependsOn graph", () => {
+    const intent = defineIntent({
+      name: "dag",
+      steps: [
+        { id: "a", dependsOn: [], run: async () => 1 },
+        { id: "b", dependsOn: ["a"], run: async () => 2 },
+        { id: "c", dependsOn: ["a", "b"], run: async () => 3 },
+      ],
+    });
+
+    expect(intent.steps.map((s) => s.dependsOn)).toEqual([[], ["a"], ["a", "b"]]);
+  });
+
+  it("throws if dependsOn references a missing step", () => {
+    const makeIntent = () =>
+      defineIntent({
+        name: "missing-dependency",
+        steps: [{ id: "a", dependsOn: ["MISSING"], run: async () => 1 }],
+      });
+
+    expect(makeIntent).toThrow(/depends on unknown step "MISSING"/);
+  });
+
+  it("throws if the dependsOn graph contains a cycle", () => {
+    const makeIntent = () =>
+      defineIntent({
+        name: "cyclic",
+        steps: [
+          { id: "a", dependsOn: ["c"], run: async () => 1 },
+          { id: "b", dependsOn: ["a"], run: async () => 2 },
+          { id: "c", dependsOn: ["b"], run: async () => 3 },
+        ],
+      });
+
+    expect(makeIntent).toThrow(/dependency cycle detected \(a -> c -> b -> a\)/);
+  });
+
+  it("throws if a graph step depends on a step that only runs as a fallback", () => {
+    const makeIntent = () =>
+      defineIntent({
+        name: "stranded",
+        steps: [
+          { id: "a", dependsOn: [], fallbackTo: "b", run: async () => 1 },
+          { id: "b", run: async () => 2 },
+          { id: "c", dependsOn: ["b"], run: async () => 3 },
+        ],
+      });
+
+    expect(makeIntent).toThrow(/step "c" depends on "b", which only runs as a fallback/);
+  });
+
+  it("throws if a graph step falls back to a step with dependencies", () => {
+    const makeIntent = () =>
+      defineIntent({
+        name: "fallback-with-deps",
+        steps: [
+          { id: "a", fallbackTo: "c", run: async () => 1 },
+          { id: "b", run: async () => 2 },
+          { id: "c", dependsOn: ["b"], run: async () => 3 },
+        ],
+      });
+
+    expect(makeIntent).toThrow(/step "a" falls back to "c", which declares dependsOn/);
+  });
+
+  it("throws if a route points to a missing step", () => {
+    const makeIntent = () =>
+      defineIntent({
+        name: "bad-route",
+        steps: [
+          { id: "classify", run: async () => "x", route: { x: "MISSING" } },
+        ],
+      });
+
+    expect(makeIntent).toThrow(/routes "x" to unknown step "MISSING"/);
+  });
+
+  it("throws if routing is combined with dependsOn", () => {
+    const makeIntent = () =>
+      defineIntent({
+        name: "route-in-graph",
+        steps: [
+          { id: "a", dependsOn: [], run: async () => "b", next: () => "b" },
+          { id: "b", dependsOn: ["a"], run: async () => 2 },
+        ],
+      });
+
+    expect(makeIntent).toThrow(/not supported together with dependsOn/);
+  });
+
+  it("throws if deadlineMs is not a positive number", () => {
+    const makeIntent = () =>
+      defineIntent({
+        name: "bad-deadline",
+        deadlineMs: 0,
+        steps: [{ id: "a", run: async () => 1 }],
+      });
+
+    expect(makeIntent).toThrow(/deadlineMs must be a positive number/);
+  });
+});
@@ -125,7 +125,46 @@
  */
 import { describe, it, expect } from "vitest";
 // Match the same style/path you use in engine.spec.ts
-import { runWithRetry, runWithTimeout , TimeOutError, RetryExhaustedError} from "../../src/core/policies";
+import {
+  runWithRetry,
+  runWithTimeout,
+  TimeOutError,
+  RetryExhaustedError,
+  DeadlineExceededError,
+  computeRetryDelay,
+  systemClock,
+  CircuitBreaker,
+  CircuitOpenError,
+  CancelledError,
+  withCircuitBreaker,
+  Bulkhead,
+  BulkheadFullError,
+  RateLimiter,
+  RateLimitExceededError,
+  withRateLimiter,
+  runWithHedge,
+  readStream,
+} from "../../src/core/policies";
+import type { Clock } from "../../src/core/policies";
+import { IntentConfigurationError, ProviderError } from "../../src/utils/error";
+import type { TelemetryEvent } from "../../src/types";
+
+// A clock whose sleep() resolves immediately but advances now(), so backoff
+// can be asserted on without waiting for it.
+function fakeClock(start = 0): Clock & { sleeps: number[] } {
+  let time = start;
+  const sleeps: number[] = [];
+
+  return {
+    sleeps,
+    now: () => time,
+    async sleep(ms, signal) {
+      if (signal?.aborted) throw signal.reason;
+      sleeps.push(ms);
+      time += ms;
+    },
+  };
+}
 
 describe("runWithRetry", () => {
   it("executes the function once and returns its result when no policy is provided", async () => {
@@ -157,6 +196,94 @@ describe("runWithRetry", () => {
   });
 });
 
+describe("runWithRetry – exhausted attempts", () => {
+  it("keeps the last error as cause and every attempt's error", async () => {
+    let time = 0;
+    const clock = {
+      now: () => time,
+      sleep: async () => undefined,
+    };
+    let callCount = 0;
+
+    const error = await runWithRetry(
+      async () => {
+        callCount += 1;
+        time += 10 * callCount;
+        throw new Error(`failure ${callCount}`);
+      },
+      undefined,
+      "intent",
+      "step",
+      { maxAttemps: 3 },
+      { clock },
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    const exhausted = error as RetryExhaustedError;
+    expect(exhausted.cause).toMatchObject({ message: "failure 3" });
+    expect(
+      exhausted.attempts.map(({ attempt, error, startedAt, durationMs }) => [
+        attempt,
+        (error as Error).message,
+        startedAt,
+        durationMs,
+      ]),
+    ).toEqual([
+      [1, "failure 1", 0, 10],
+      [2, "failure 2", 10, 20],
+      [3, "failure 3", 30, 30],
+    ]);
+  });
+
+  it("keeps the earlier attempts when retryOn stops the loop", async () => {
+    let callCount = 0;
+
+    const error = await runWithRetry(
+      async () => {
+        callCount += 1;
+        throw new Error(`fail ${callCount}`);
+      },
+      undefined,
+      "intent",
+      "step",
+      { maxAttemps: 5, initialDelayMs: 0, retryOn: (_, attempt) => attempt < 2 },
+      { clock: fakeClock() },
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    const exhausted = error as RetryExhaustedError;
+    expect(exhausted.message).toMatch(/gave up after 2 attempts/);
+    expect(exhausted.cause).toMatchObject({ message: "fail 2" });
+    expect(exhausted.attempts.map((a) => (a.error as Error).message)).toEqual([
+      "fail 1",
+      "fail 2",
+    ]);
+  });
+
+  it("keeps the earlier attempts when the deadline stops the loop", async () => {
+    const clock = fakeClock();
+    let callCount = 0;
+
+    const error = await runWithRetry(
+      async () => {
+        callCount += 1;
+        throw new Error(`fail ${callCount}`);
+      },
+      undefined,
+      "intent",
+      "step",
+      { maxAttemps: 5, initialDelayMs: 100, backoff: "fixed" },
+      { clock, deadline: 150 },
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    const exhausted = error as RetryExhaustedError;
+    expect(exhausted.cause).toBeInstanceOf(DeadlineExceededError);
+    expect((exhausted.cause as DeadlineExceededError).cause).toMatchObject({ message: "fail 2" });
+    expect(exhausted.attempts).toHaveLength(2);
+  });
+});
+
 describe("runWithTimeout", () => {
   it("resolves if the function finishes before the timeout", async () => {
     const fast = async () => {
@@ -200,6 +327,30 @@ describe("runWithTimeout", () => {
 
     await expect(runWithTimeout(failing, 1000)).rejects.toThrow("boom");
   });
+
+  it("times the deadline clamp with the injected clock", async () => {
+    const clock = fakeClock(1000);
+    let aborted: unknown;
+
+    const pending = runWithTimeout(
+      (signal) =>
+        new Promise<string>((_, reject) => {
+          signal.addEventListener("abort", () => {
+            aborted = signal.reason;
+            reject(signal.reason);
+          });
+        }),
+      60_000,
+      undefined,
+      "intent",
+      "step",
+      { clock, deadline: 1300 },
+    );
+
+    await expect(pending).rejects.toBeInstanceOf(DeadlineExceededError);
+    expect(clock.sleeps).toEqual([300]);
+    expect(aborted).toBeInstanceOf(DeadlineExceededError);
+  });
 });
 it("throws RetryExhaustedError when all retry attempts fail", async () => {
   let callCount = 0;
@@ -221,3 +372,762 @@ it("throws RetryExhaustedError when all retry attempts fail", async () => {
 
   expect(callCount).toBe(3);
 });
+
+describe("cancellation", () => {
+  it("runWithTimeout aborts the signal it hands to the function when the timer fires", async () => {
+    let received: AbortSignal | undefined;
+
+    await expect(
+      runWithTimeout(async (signal) => {
+        received = signal;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return "too late";
+      }, 10),
+    ).rejects.toBeInstanceOf(TimeOutError);
+
+    expect(received!.aborted).toBe(true);
+  });
+
+  it("runWithTimeout rejects with the parent signal's reason when it aborts", async () => {
+    const controller = new AbortController();
+    const reason = new Error("caller gave up");
+
+    const pending = runWithTimeout(
+      () => new Promise<string>(() => {}),
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { signal: controller.signal },
+    );
+    controller.abort(reason);
+
+    await expect(pending).rejects.toBe(reason);
+  });
+
+  it("runWithRetry stops retrying once the signal is aborted", async () => {
+    const controller = new AbortController();
+    let callCount = 0;
+
+    const failing = async () => {
+      callCount += 1;
+      controller.abort(new Error("cancelled"));
+      throw new Error("boom");
+    };
+
+    await expect(
+      runWithRetry(failing, undefined, "intent", "step", { maxAttemps: 5 }, {
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow("cancelled");
+    expect(callCount).toBe(1);
+  });
+});
+
+describe("deadlines", () => {
+  it("runWithTimeout clamps the timeout to the remaining deadline", async () => {
+    const startedAt = Date.now();
+
+    await expect(
+      runWithTimeout(
+        () => new Promise<string>((resolve) => setTimeout(() => resolve("late"), 100)),
+        1000,
+        undefined,
+        "intent",
+        "step",
+        { deadline: Date.now() + 10 },
+      ),
+    ).rejects.toBeInstanceOf(DeadlineExceededError);
+
+    expect(Date.now() - startedAt).toBeLessThan(100);
+  });
+
+  it("runWithRetry does not start an attempt once the deadline has passed", async () => {
+    let callCount = 0;
+
+    await expect(
+      runWithRetry(
+        async () => {
+          callCount += 1;
+          throw new Error("boom");
+        },
+        undefined,
+        "intent",
+        "step",
+        { maxAttemps: 3 },
+        { deadline: Date.now() - 1 },
+      ),
+    ).rejects.toBeInstanceOf(DeadlineExceededError);
+
+    expect(callCount).toBe(0);
+  });
+});
+
+describe("backoff and retry predicates", () => {
+  it("computes fixed and exponential delays capped by maxDelayMs", () => {
+    const fixed = { maxAttemps: 5, initialDelayMs: 100, backoff: "fixed" as const };
+    const exponential = { maxAttemps: 5, initialDelayMs: 100, maxDelayMs: 500 };
+
+    expect([1, 2, 3].map((n) => computeRetryDelay(fixed, n))).toEqual([100, 100, 100]);
+    expect([1, 2, 3, 4].map((n) => computeRetryDelay(exponential, n))).toEqual([
+      100, 200, 400, 500,
+    ]);
+  });
+
+  it("applies full and equal jitter within their ranges", () => {
+    const policy = { maxAttemps: 3, initialDelayMs: 1000 };
+
+    expect(computeRetryDelay({ ...policy, jitter: "full" }, 1, () => 0)).toBe(0);
+    expect(computeRetryDelay({ ...policy, jitter: "full" }, 1, () => 0.5)).toBe(500);
+    expect(computeRetryDelay({ ...policy, jitter: "equal" }, 1, () => 0)).toBe(500);
+    expect(computeRetryDelay({ ...policy, jitter: "equal" }, 2, () => 0.5)).toBe(1500);
+  });
+
+  it("waits between attempts and reports the delay in retry_attempt_failed", async () => {
+    const clock = fakeClock();
+    const events: TelemetryEvent[] = [];
+    let callCount = 0;
+
+    const result = await runWithRetry(
+      async () => {
+        callCount += 1;
+        if (callCount < 3) throw new Error("flaky");
+        return "ok";
+      },
+      (event) => events.push(event),
+      "intent",
+      "step",
+      { maxAttemps: 3, initialDelayMs: 50 },
+      { clock },
+    );
+
+    expect(result).toBe("ok");
+    expect(clock.sleeps).toEqual([50, 100]);
+    expect(
+      events.filter((e) => e.type === "retry_attempt_failed").map((e) => e.delayMs),
+    ).toEqual([50, 100]);
+  });
+
+  it("does not retry errors rejected by retryOn", async () => {
+    const clock = fakeClock();
+    const validation = new Error("invalid input");
+    const seen: number[] = [];
+    let callCount = 0;
+
+    await expect(
+      runWithRetry(
+        async () => {
+          callCount += 1;
+          throw validation;
+        },
+        undefined,
+        "intent",
+        "step",
+        {
+          maxAttemps: 5,
+          initialDelayMs: 10,
+          retryOn: (error, attempt) => {
+            seen.push(attempt);
+            return error !== validation;
+          },
+        },
+        { clock },
+      ),
+    ).rejects.toBe(validation);
+
+    expect(callCount).toBe(1);
+    expect(seen).toEqual([1]);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it("waits no longer than the deadline, then fails with DeadlineExceededError", async () => {
+    const clock = fakeClock(1000);
+    const boom = new Error("boom");
+    let callCount = 0;
+
+    const error = await runWithRetry(
+      async () => {
+        callCount += 1;
+        throw boom;
+      },
+      undefined,
+      "intent",
+      "step",
+      { maxAttemps: 3, initialDelayMs: 500 },
+      { clock, deadline: 1200 },
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DeadlineExceededError);
+    expect((error as DeadlineExceededError).cause).toBe(boom);
+    expect(callCount).toBe(1);
+    expect(clock.sleeps).toEqual([200]);
+  });
+
+  it("cancels a pending backoff delay when the signal aborts", async () => {
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+    let callCount = 0;
+
+    const pending = runWithRetry(
+      async () => {
+        callCount += 1;
+        throw new Error("boom");
+      },
+      undefined,
+      "intent",
+      "step",
+      { maxAttemps: 3, initialDelayMs: 60_000 },
+      { clock: systemClock, signal: controller.signal },
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort(reason);
+
+    await expect(pending).rejects.toBe(reason);
+    expect(callCount).toBe(1);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const fail = async (): Promise<string> => {
+    throw new Error("provider down");
+  };
+
+  function makeBreaker(events: TelemetryEvent[] = []) {
+    const clock = fakeClock();
+    const breaker = new CircuitBreaker({
+      name: "openai",
+      minimumCalls: 3,
+      failureRateThreshold: 0.5,
+      cooldownMs: 1000,
+      clock,
+      telemetry: (event) => events.push(event),
+    });
+    return { breaker, clock };
+  }
+
+  it("opens once the failure rate crosses the threshold and then fails fast", async () => {
+    const { breaker } = makeBreaker();
+    let calls = 0;
+    const counted = () => {
+      calls += 1;
+      return fail();
+    };
+
+    await expect(breaker.execute(async () => "ok")).resolves.toBe("ok");
+    await expect(breaker.execute(counted)).rejects.toThrow("provider down");
+    expect(breaker.state).toBe("closed");
+    await expect(breaker.execute(counted)).rejects.toThrow("provider down");
+    expect(breaker.state).toBe("open");
+
+    const rejected = breaker.execute(counted);
+    await expect(rejected).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(rejected).rejects.toMatchObject({ circuit: "openai", retryAfterMs: 1000 });
+    expect(calls).toBe(2);
+  });
+
+  it("lets a trial call through after the cooldown and closes on success", async () => {
+    const events: TelemetryEvent[] = [];
+    const { breaker, clock } = makeBreaker(events);
+
+    for (let i = 0; i < 3; i++) {
+      await breaker.execute(fail).catch(() => undefined);
+    }
+    expect(breaker.state).toBe("open");
+
+    await clock.sleep(1000);
+    await expect(breaker.execute(async () => "recovered")).resolves.toBe("recovered");
+    expect(breaker.state).toBe("closed");
+
+    expect(
+      events.map((e) => [e.type, e.circuit, e.previousCircuitState, e.circuitState]),
+    ).toEqual([
+      ["circuit_state_changed", "openai", "closed", "open"],
+      ["circuit_state_changed", "openai", "open", "half-open"],
+      ["circuit_state_changed", "openai", "half-open", "closed"],
+    ]);
+  });
+
+  it("re-opens when the half-open trial fails", async () => {
+    const { breaker, clock } = makeBreaker();
+
+    for (let i = 0; i < 3; i++) {
+      await breaker.execute(fail).catch(() => undefined);
+    }
+
+    await clock.sleep(1000);
+    await expect(breaker.execute(fail)).rejects.toThrow("provider down");
+    expect(breaker.state).toBe("open");
+    await expect(breaker.execute(fail)).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it("does not count cancellations as failures", async () => {
+    const { breaker } = makeBreaker();
+
+    for (let i = 0; i < 5; i++) {
+      await breaker
+        .execute(async () => {
+          throw new CancelledError("caller went away");
+        })
+        .catch(() => undefined);
+    }
+
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("is not retried by runWithRetry", async () => {
+    const { breaker } = makeBreaker();
+    for (let i = 0; i < 3; i++) {
+      await breaker.execute(fail).catch(() => undefined);
+    }
+
+    let attempts = 0;
+    await expect(
+      runWithRetry(
+        () => {
+          attempts += 1;
+          return breaker.execute(fail);
+        },
+        undefined,
+        "intent",
+        "step",
+        { maxAttemps: 5 },
+      ),
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(attempts).toBe(1);
+  });
+
+  it("can be wrapped around a provider client", async () => {
+    const { breaker } = makeBreaker();
+    let calls = 0;
+    const provider = withCircuitBreaker(
+      {
+        async chat() {
+          calls += 1;
+          throw new Error("503");
+        },
+      },
+      breaker,
+    );
+
+    for (let i = 0; i < 4; i++) {
+      await provider.chat().catch(() => undefined);
+    }
+
+    expect(breaker.state).toBe("open");
+    expect(calls).toBe(3);
+  });
+});
+
+describe("Bulkhead", () => {
+  // a call that stays in flight until release() is called
+  function deferred() {
+    let release!: () => void;
+    const done = new Promise<string>((resolve) => {
+      release = () => resolve("done");
+    });
+    return { done, release };
+  }
+
+  it("queues calls beyond maxConcurrent and reports how long they waited", async () => {
+    const clock = fakeClock();
+    const events: TelemetryEvent[] = [];
+    const bulkhead = new Bulkhead({ name: "llm", maxConcurrent: 1, clock });
+    const first = deferred();
+    const order: string[] = [];
+
+    const a = bulkhead.execute(() => first.done.then(() => order.push("a")));
+    const b = bulkhead.execute(
+      async () => order.push("b"),
+      (event) => events.push(event),
+      "intent",
+      "step",
+    );
+
+    expect(bulkhead.activeCount).toBe(1);
+    expect(bulkhead.queuedCount).toBe(1);
+
+    await clock.sleep(250);
+    first.release();
+    await Promise.all([a, b]);
+
+    expect(order).toEqual(["a", "b"]);
+    expect(bulkhead.activeCount).toBe(0);
+    expect(events).toMatchObject([
+      { type: "queue_waited", stepId: "step", limiter: "llm", queueWaitMs: 250 },
+    ]);
+  });
+
+  it("rejects with BulkheadFullError once the queue is full", async () => {
+    const bulkhead = new Bulkhead({ name: "llm", maxConcurrent: 1, maxQueued: 1 });
+    const first = deferred();
+
+    const running = bulkhead.execute(() => first.done);
+    const queued = bulkhead.execute(async () => "queued");
+
+    await expect(bulkhead.execute(async () => "overflow")).rejects.toBeInstanceOf(
+      BulkheadFullError,
+    );
+
+    first.release();
+    await expect(running).resolves.toBe("done");
+    await expect(queued).resolves.toBe("queued");
+  });
+
+  it("removes a queued call whose signal aborts", async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1 });
+    const first = deferred();
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+
+    const running = bulkhead.execute(() => first.done);
+    const queued = bulkhead.execute(async () => "never", undefined, "intent", "step", {
+      signal: controller.signal,
+    });
+
+    controller.abort(reason);
+    await expect(queued).rejects.toBe(reason);
+    expect(bulkhead.queuedCount).toBe(0);
+
+    first.release();
+    await running;
+    expect(bulkhead.activeCount).toBe(0);
+  });
+
+  it("rejects limits that would park every call", () => {
+    expect(() => new Bulkhead({ name: "llm", maxConcurrent: 0 })).toThrow(
+      /Bulkhead "llm": maxConcurrent must be a positive integer/,
+    );
+    expect(() => new Bulkhead({ maxConcurrent: NaN })).toThrow(IntentConfigurationError);
+    expect(() => new Bulkhead({ maxConcurrent: 1, maxQueued: 0.5 })).toThrow(/maxQueued/);
+  });
+
+  it("gives up on a queued call at the deadline, timed by its clock", async () => {
+    const clock = fakeClock(1000);
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, clock });
+    const first = deferred();
+
+    const running = bulkhead.execute(() => first.done);
+    const queued = bulkhead.execute(async () => "never", undefined, "intent", "step", {
+      deadline: 1300,
+    });
+
+    await expect(queued).rejects.toBeInstanceOf(DeadlineExceededError);
+    expect(clock.sleeps).toEqual([300]);
+    expect(bulkhead.queuedCount).toBe(0);
+
+    first.release();
+    await running;
+  });
+});
+
+describe("RateLimiter", () => {
+  it("rejects rates and bursts that could never hand out a token", () => {
+    expect(() => new RateLimiter({ tokensPerSecond: 0 })).toThrow(
+      /tokensPerSecond must be a positive number/,
+    );
+    expect(() => new RateLimiter({ tokensPerSecond: Infinity })).toThrow(IntentConfigurationError);
+    expect(() => new RateLimiter({ tokensPerSecond: 5, burst: 0 })).toThrow(/burst/);
+    expect(() => new RateLimiter({ tokensPerSecond: 5, maxQueued: -1 })).toThrow(/maxQueued/);
+  });
+
+  it("lets a burst through, then spaces calls out at the refill rate", async () => {
+    // time stands still, so every wait is computed from the same instant
+    const sleeps: number[] = [];
+    const clock: Clock = {
+      now: () => 0,
+      async sleep(ms) {
+        sleeps.push(ms);
+      },
+    };
+    const events: TelemetryEvent[] = [];
+    const limiter = new RateLimiter({
+      name: "openai",
+      tokensPerSecond: 10,
+      burst: 2,
+      clock,
+      telemetry: (event) => events.push(event),
+    });
+
+    const calls = [1, 2, 3, 4].map(() => limiter.execute(async () => "ok"));
+    await Promise.all(calls);
+
+    expect(sleeps).toEqual([100, 200]);
+    expect(events).toMatchObject([
+      { type: "queue_waited", limiter: "openai", queueWaitMs: 100 },
+      { type: "queue_waited", limiter: "openai", queueWaitMs: 200 },
+    ]);
+  });
+
+  it("rejects with RateLimitExceededError once maxQueued callers are waiting", async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({
+      tokensPerSecond: 1,
+      burst: 1,
+      maxQueued: 0,
+      clock,
+    });
+
+    await limiter.execute(async () => "first");
+    await expect(limiter.execute(async () => "second")).rejects.toBeInstanceOf(
+      RateLimitExceededError,
+    );
+  });
+
+  it("can be wrapped around a provider client", async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ tokensPerSecond: 1, burst: 1, clock });
+    const provider = withRateLimiter(
+      { chat: async (prompt: string) => ({ content: prompt, at: clock.now() }) },
+      limiter,
+    );
+
+    const first = await provider.chat("a");
+    const second = await provider.chat("b");
+
+    expect(second).toEqual({ content: "b", at: first.at + 1000 });
+  });
+});
+
+describe("runWithHedge", () => {
+  const delay = (ms: number, value: string, signal: AbortSignal) =>
+    new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => resolve(value), ms);
+      signal.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      });
+    });
+
+  it("starts a hedge after afterMs, takes the first success and aborts the loser", async () => {
+    const events: TelemetryEvent[] = [];
+    const signals: AbortSignal[] = [];
+
+    const result = await runWithHedge(
+      (signal) => {
+        signals.push(signal);
+        // the original attempt is stuck in the long tail
+        return delay(signals.length === 1 ? 1000 : 5, `attempt ${signals.length}`, signal);
+      },
+      { afterMs: 10 },
+      (event) => events.push(event),
+      "intent",
+      "step",
+    );
+
+    expect(result).toBe("attempt 2");
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[0].reason).toBeInstanceOf(CancelledError);
+    expect(signals[1].aborted).toBe(false);
+    expect(events.map((e) => [e.type, e.hedge])).toEqual([
+      ["hedge_started", 1],
+      ["hedge_won", 1],
+    ]);
+  });
+
+  it("does not hedge when the first attempt is fast enough", async () => {
+    const events: TelemetryEvent[] = [];
+    let calls = 0;
+
+    const result = await runWithHedge(
+      (signal) => {
+        calls += 1;
+        return delay(1, "fast", signal);
+      },
+      { afterMs: 50 },
+      (event) => events.push(event),
+    );
+
+    expect(result).toBe("fast");
+    expect(calls).toBe(1);
+    expect(events).toEqual([]);
+  });
+
+  it("fails once every started attempt has failed", async () => {
+    let calls = 0;
+
+    await expect(
+      runWithHedge(
+        async () => {
+          calls += 1;
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          throw new Error(`failure ${calls}`);
+        },
+        { afterMs: 5, maxHedges: 2 },
+        undefined,
+        "intent",
+        "step",
+        { clock: systemClock },
+      ),
+    ).rejects.toThrow(/failure/);
+
+    expect(calls).toBe(3);
+  });
+
+  it("composes with runWithTimeout so each attempt has its own timeout", async () => {
+    const result = await runWithHedge(
+      (hedgeSignal) =>
+        runWithTimeout(
+          (signal) => delay(5, "ok", signal),
+          50,
+          undefined,
+          "intent",
+          "step",
+          { signal: hedgeSignal },
+        ),
+      { afterMs: 1 },
+    );
+
+    expect(result).toBe("ok");
+  });
+});
+
+describe("readStream", () => {
+  async function* ticks(delays: number[]) {
+    for (const [index, delay] of delays.entries()) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      yield `t${index}`;
+    }
+  }
+
+  it("collects every chunk and reports each one as it arrives", async () => {
+    const seen: [string, number][] = [];
+
+    const chunks = await readStream(ticks([0, 5, 0]), (chunk, index) =>
+      seen.push([chunk, index])
+    );
+
+    expect(chunks).toEqual(["t0", "t1", "t2"]);
+    expect(seen).toEqual([
+      ["t0", 0],
+      ["t1", 1],
+      ["t2", 2],
+    ]);
+  });
+
+  it("fails with TimeOutError when the gap between chunks exceeds idleTimeoutMs", async () => {
+    const events: TelemetryEvent[] = [];
+    let closed = false;
+
+    async function* stalls() {
+      try {
+        yield "first";
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        yield "late";
+      } finally {
+        closed = true;
+      }
+    }
+
+    await expect(
+      readStream(stalls(), () => undefined, 20, (e) => events.push(e), "chat", "draft")
+    ).rejects.toThrow(TimeOutError);
+
+    expect(events.map((e) => e.type)).toEqual(["timeout_fired"]);
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    expect(closed).toBe(true);
+  });
+
+  it("stops reading when the signal aborts", async () => {
+    const controller = new AbortController();
+    const reading = readStream(
+      ticks([0, 50]),
+      () => controller.abort(new CancelledError("stop")),
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { signal: controller.signal }
+    );
+
+    await expect(reading).rejects.toThrow(CancelledError);
+  });
+});
+
+describe("runWithRetry – retry delay hints", () => {
+  const rateLimited = (retryAfterMs: number, retryAfterSource = "retry-after") =>
+    new ProviderError("429", "openai", "rate_limit", { retryAfterMs, retryAfterSource });
+
+  it("waits as long as the error asks when that is longer than the backoff", async () => {
+    const clock = fakeClock();
+    const events: TelemetryEvent[] = [];
+    const errors = [rateLimited(2000), rateLimited(5, "x-ratelimit-reset-tokens")];
+
+    const result = await runWithRetry(
+      async () => {
+        const error = errors.shift();
+        if (error) throw error;
+        return "ok";
+      },
+      (event) => events.push(event),
+      "intent",
+      "step",
+      { maxAttemps: 3, initialDelayMs: 100, backoff: "fixed" },
+      { clock },
+    );
+
+    expect(result).toBe("ok");
+    // the second hint is shorter than the backoff, so the backoff wins
+    expect(clock.sleeps).toEqual([2000, 100]);
+    expect(
+      events
+        .filter((e) => e.type === "retry_attempt_failed")
+        .map((e) => [e.delayMs, e.delaySource]),
+    ).toEqual([
+      [2000, "retry-after"],
+      [100, "policy"],
+    ]);
+  });
+
+  it("caps the hinted delay at maxDelayMs and finds hints on wrapped errors", async () => {
+    const clock = fakeClock();
+    let callCount = 0;
+
+    await runWithRetry(
+      async () => {
+        callCount += 1;
+        if (callCount === 1) {
+          throw Object.assign(new Error("step failed"), { cause: rateLimited(60_000) });
+        }
+        return "ok";
+      },
+      undefined,
+      "intent",
+      "step",
+      { maxAttemps: 2, maxDelayMs: 3000 },
+      { clock },
+    );
+
+    expect(clock.sleeps).toEqual([3000]);
+  });
+
+  it("caps the hinted wait at the deadline and keeps the error it was waiting out", async () => {
+    const clock = fakeClock();
+    const events: TelemetryEvent[] = [];
+    const limited = rateLimited(10_000);
+    let callCount = 0;
+
+    const error = await runWithRetry(
+      async () => {
+        callCount += 1;
+        throw limited;
+      },
+      (event) => events.push(event),
+      "intent",
+      "step",
+      { maxAttemps: 3 },
+      { clock, deadline: 5000 },
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DeadlineExceededError);
+    expect((error as DeadlineExceededError).cause).toBe(limited);
+    expect(callCount).toBe(1);
+    expect(clock.sleeps).toEqual([5000]);
+    expect(
+      events
+        .filter((e) => e.type === "retry_attempt_failed")
+        .map((e) => [e.delayMs, e.delaySource]),
+    ).toEqual([[5000, "deadline"]]);
+  });
+
+});
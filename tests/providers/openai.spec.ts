@@ -136,7 +136,22 @@
  *
  * This file guarantees your reliability engine can trust the LLM interface.
  */
-import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { join } from "node:path";
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import { defineIntent } from "../../src/core/intent";
+import { runIntent } from "../../src/core/engine";
+import { createOpenAIProvider } from "../../src/providers/openai";
+import {
+  Bulkhead,
+  CircuitBreaker,
+  withBulkhead,
+  withCircuitBreaker,
+} from "../../src/core/policies";
+import { ProviderError } from "../../src/utils/error";
 
 
 describe("OpenAI provider (placeholder)", () => {
@@ -144,3 +159,363 @@ describe("OpenAI provider (placeholder)", () => {
     expect(true).toBe(true);
   });
 });
+
+describe("createOpenAIProvider – chat()", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("passes the caller's AbortSignal through to fetch", async () => {
+    const fetchMock = vi.fn(async () => Response.json({ output_text: "hi" }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const controller = new AbortController();
+    const provider = createOpenAIProvider({ apiKey: "test-key" });
+
+    const result = await provider.chat({
+      prompt: "hello",
+      signal: controller.signal,
+    });
+
+    expect(result.content).toBe("hi");
+    const init = (fetchMock.mock.calls[0] as unknown[])[1] as RequestInit;
+    expect(init.signal).toBe(controller.signal);
+  });
+});
+
+describe("createOpenAIProvider – errors", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const respondWith = (response: Response | (() => never)) =>
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => (typeof response === "function" ? response() : response))
+    );
+
+  it("turns a 429 into a retryable rate_limit ProviderError with Retry-After", async () => {
+    respondWith(
+      Response.json(
+        { error: { message: "Rate limit reached", type: "requests", code: "rate_limit_exceeded" } },
+        { status: 429, headers: { "x-request-id": "req_1", "retry-after": "2" } }
+      )
+    );
+    const provider = createOpenAIProvider({ apiKey: "test-key" });
+
+    await expect(provider.chat({ prompt: "hi" })).rejects.toMatchObject({
+      name: "ProviderError",
+      category: "rate_limit",
+      status: 429,
+      code: "rate_limit_exceeded",
+      requestId: "req_1",
+      retryAfterMs: 2000,
+      retryable: true,
+      message: "OpenAI request failed with HTTP 429: Rate limit reached",
+    });
+  });
+
+  it("takes the retry delay of a 429 from the exhausted rate limit's reset header", async () => {
+    respondWith(
+      new Response("{}", {
+        status: 429,
+        headers: {
+          "x-ratelimit-remaining-requests": "42",
+          "x-ratelimit-reset-requests": "120ms",
+          "x-ratelimit-remaining-tokens": "0",
+          "x-ratelimit-reset-tokens": "1m6.5s",
+        },
+      })
+    );
+    const provider = createOpenAIProvider({ apiKey: "test-key" });
+
+    const error = await provider.chat({ prompt: "hi" }).catch((e) => e);
+
+    expect(error).toMatchObject({
+      retryAfterMs: 66_500,
+      retryAfterSource: "x-ratelimit-reset-tokens",
+    });
+    expect(error.retryDelay()).toEqual({
+      delayMs: 66_500,
+      source: "x-ratelimit-reset-tokens",
+    });
+  });
+
+  it("prefers retry-after-ms over the other hints", async () => {
+    respondWith(
+      new Response("{}", {
+        status: 429,
+        headers: {
+          "retry-after-ms": "250",
+          "retry-after": "1",
+          "x-ratelimit-reset-tokens": "5s",
+        },
+      })
+    );
+    const provider = createOpenAIProvider({ apiKey: "test-key" });
+
+    await expect(provider.chat({ prompt: "hi" })).rejects.toMatchObject({
+      retryAfterMs: 250,
+      retryAfterSource: "retry-after-ms",
+    });
+  });
+
+  it("does not retry a 429 for an exhausted quota", async () => {
+    respondWith(
+      Response.json(
+        { error: { message: "You exceeded your current quota", code: "insufficient_quota" } },
+        { status: 429 }
+      )
+    );
+    const provider = createOpenAIProvider({ apiKey: "test-key" });
+
+    await expect(provider.chat({ prompt: "hi" })).rejects.toMatchObject({
+      category: "rate_limit",
+      retryable: false,
+    });
+  });
+
+  it.each([
+    [401, "auth", false],
+    [400, "validation", false],
+    [500, "provider", true],
+    [503, "provider", true],
+  ])("maps HTTP %i to a %s error (retryable: %s)", async (status, category, retryable) => {
+    respondWith(new Response("<html>upstream error</html>", { status }));
+    const provider = createOpenAIProvider({ apiKey: "test-key" });
+
+    await expect(provider.chat({ prompt: "hi" })).rejects.toMatchObject({
+      category,
+      status,
+      retryable,
+    });
+  });
+
+  it("rejects a 200 whose body is not JSON", async () => {
+    respondWith(new Response("not json", { status: 200 }));
+    const provider = createOpenAIProvider({ apiKey: "test-key" });
+
+    await expect(provider.chat({ prompt: "hi" })).rejects.toMatchObject({
+      name: "ProviderError",
+      status: 200,
+      retryable: true,
+    });
+  });
+
+  it("wraps network failures but keeps the caller's abort reason", async () => {
+    respondWith(() => {
+      throw new TypeError("fetch failed");
+    });
+    const provider = createOpenAIProvider({ apiKey: "test-key" });
+
+    const error = await provider.chat({ prompt: "hi" }).catch((e) => e);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.cause).toBeInstanceOf(TypeError);
+    expect(error.retryable).toBe(true);
+
+    const controller = new AbortController();
+    const reason = new Error("user left");
+    controller.abort(reason);
+    await expect(
+      provider.chat({ prompt: "hi", signal: controller.signal })
+    ).rejects.toBe(reason);
+  });
+
+  it("lets retries and fallbacks handle HTTP errors", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("{}", { status: 500 }))
+      .mockResolvedValueOnce(Response.json({ output_text: "recovered" }));
+    vi.stubGlobal("fetch", fetchMock);
+    const openai = createOpenAIProvider({ apiKey: "test-key" });
+
+    const intent = defineIntent({
+      name: "chat-retry",
+      steps: [
+        {
+          id: "answer",
+          retry: { maxAttemps: 2, initialDelayMs: 0 },
+          run: async (ctx) => (await ctx.providers!.openai!.chat({ prompt: "hi" })).content,
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: {}, metadata: {}, providers: { openai } });
+
+    expect(result.output).toBe("recovered");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("only reports raw responses through the opt-in debug hook", async () => {
+    respondWith(
+      Response.json({ output_text: "hi" }, { headers: { "x-request-id": "req_9" } })
+    );
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const debug = vi.fn();
+
+    await createOpenAIProvider({ apiKey: "test-key", debug }).chat({ prompt: "hi" });
+
+    expect(log).not.toHaveBeenCalled();
+    expect(debug).toHaveBeenCalledWith({
+      status: 200,
+      requestId: "req_9",
+      body: { output_text: "hi" },
+    });
+  });
+});
+
+describe("createOpenAIProvider – chatStream()", () => {
+  const fixture = (name: string) =>
+    readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+  let server: Server;
+  let baseUrl: string;
+  let requests: Record<string, unknown>[];
+  // what the stub answers with: status and the SSE body to replay
+  let reply: { status: number; body: string };
+
+  beforeEach(async () => {
+    requests = [];
+    reply = { status: 200, body: "" };
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", async () => {
+        requests.push(JSON.parse(body));
+        res.writeHead(reply.status, {
+          "Content-Type": "text/event-stream",
+          "x-request-id": "req_123",
+        });
+        // replay in small pieces so events (and "\r\n"s) span reads
+        for (let i = 0; i < reply.body.length; i += 37) {
+          res.write(reply.body.slice(i, i + 37));
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("yields text deltas and resolves final() with the message and usage", async () => {
+    reply.body = fixture("openai-stream-completed.sse").replace(/\n/g, "\r\n");
+    const provider = createOpenAIProvider({ apiKey: "test-key", baseUrl });
+
+    const stream = provider.chatStream!({ prompt: "hello" });
+    const deltas: string[] = [];
+    for await (const delta of stream) deltas.push(delta);
+
+    expect(requests[0]).toMatchObject({ input: "hello", stream: true });
+    expect(deltas).toEqual(["Hello", ", wor", "ld!"]);
+    await expect(stream.final()).resolves.toEqual({
+      content: "Hello, world!",
+      usage: { inputTokens: 12, outputTokens: 4, totalTokens: 16 },
+    });
+  });
+
+  it("reads the stream itself when final() is called without iterating", async () => {
+    reply.body = fixture("openai-stream-completed.sse");
+    const provider = createOpenAIProvider({ apiKey: "test-key", baseUrl });
+
+    const result = await provider.chatStream!({ prompt: "hello" }).final();
+
+    expect(result.content).toBe("Hello, world!");
+  });
+
+  it("surfaces a mid-stream error event as a ProviderError", async () => {
+    reply.body = fixture("openai-stream-error.sse");
+    const provider = createOpenAIProvider({ apiKey: "test-key", baseUrl });
+
+    const stream = provider.chatStream!({ prompt: "hello" });
+    const deltas: string[] = [];
+    const reading = (async () => {
+      for await (const delta of stream) deltas.push(delta);
+    })();
+
+    await expect(reading).rejects.toMatchObject({
+      name: "ProviderError",
+      category: "rate_limit",
+      code: "rate_limit_exceeded",
+      requestId: "req_123",
+      retryable: true,
+    });
+    expect(deltas).toEqual(["Partial"]);
+    await expect(stream.final()).rejects.toBeInstanceOf(ProviderError);
+  });
+
+  it("fails when the stream ends before response.completed", async () => {
+    const full = fixture("openai-stream-completed.sse");
+    reply.body = full.slice(0, full.indexOf("event: response.completed"));
+    const provider = createOpenAIProvider({ apiKey: "test-key", baseUrl });
+
+    await expect(provider.chatStream!({ prompt: "hello" }).final()).rejects.toThrow(
+      /ended before the response completed/
+    );
+  });
+
+  it("turns an HTTP error status into a ProviderError", async () => {
+    reply = { status: 401, body: "" };
+    const provider = createOpenAIProvider({ apiKey: "bad-key", baseUrl });
+
+    await expect(provider.chatStream!({ prompt: "hello" }).final()).rejects.toMatchObject({
+      name: "ProviderError",
+      category: "auth",
+      status: 401,
+      retryable: false,
+    });
+  });
+
+  it("keeps a wrapping policy in force until the stream is consumed", async () => {
+    reply.body = fixture("openai-stream-error.sse");
+    const breaker = new CircuitBreaker({ minimumCalls: 1, failureRateThreshold: 1 });
+    const bulkhead = new Bulkhead({ maxConcurrent: 1 });
+    const provider = withCircuitBreaker(
+      withBulkhead(createOpenAIProvider({ apiKey: "test-key", baseUrl }), bulkhead),
+      breaker
+    );
+
+    const stream = provider.chatStream!({ prompt: "hello" });
+    const iterator = stream[Symbol.asyncIterator]();
+
+    await expect(iterator.next()).resolves.toEqual({ value: "Partial", done: false });
+    // mid-stream: the slot is still taken
+    expect(bulkhead.activeCount).toBe(1);
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(ProviderError);
+    expect(bulkhead.activeCount).toBe(0);
+    // the error surfaced after the stream had opened, and still counts
+    expect(breaker.state).toBe("open");
+    await expect(stream.final()).rejects.toBeInstanceOf(ProviderError);
+    await expect(provider.chatStream!({ prompt: "again" }).final()).rejects.toMatchObject({
+      name: "CircuitOpenError",
+    });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("can be returned from a step, which then streams into the run", async () => {
+    reply.body = fixture("openai-stream-completed.sse");
+    const openai = createOpenAIProvider({ apiKey: "test-key", baseUrl });
+
+    const intent = defineIntent({
+      name: "stream-chat",
+      steps: [
+        {
+          id: "answer",
+          run: (ctx) => ctx.providers!.openai!.chatStream!({ prompt: "hello", signal: ctx.signal }),
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: {}, metadata: {}, providers: { openai } });
+
+    expect(result.output).toBe("Hello, world!");
+    expect(result.trace.filter((e) => e.type === "step_chunk")).toHaveLength(3);
+  });
+});
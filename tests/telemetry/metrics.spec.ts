@@ -0,0 +1,134 @@
+/**
+ * metrics.spec.ts
+ * ----------------
+ * Tests for the metrics sink in metrics.ts: counters and histograms built
+ * from real runs, and the Prometheus text they render to.
+ */
+
+import { describe, expect, it } from "vitest";
+import { defineIntent } from "../../src/core/intent";
+import { runIntent } from "../../src/core/engine";
+import { createMetricsSink } from "../../src/core/metrics";
+
+describe("createMetricsSink", () => {
+  it("counts runs, retries, timeouts and fallbacks per intent and step", async () => {
+    const metrics = createMetricsSink();
+    let calls = 0;
+
+    const intent = defineIntent({
+      name: "answer",
+      steps: [
+        {
+          id: "draft",
+          retry: { maxAttemps: 2, initialDelayMs: 0 },
+          timeoutMs: 20,
+          fallbackTo: "canned",
+          next: () => undefined,
+          run: async () => {
+            calls++;
+            // first attempt times out, second one throws
+            if (calls === 1) await new Promise((resolve) => setTimeout(resolve, 100));
+            throw new Error("model down");
+          },
+        },
+        { id: "canned", run: async () => "Sorry, try again later." },
+      ],
+    });
+
+    await runIntent(intent, { input: {}, metadata: {}, telemetry: metrics });
+
+    const { counters, histograms } = metrics.snapshot();
+
+    expect(counters.intent_runs_total).toEqual([
+      { labels: { intent_name: "answer", outcome: "success" }, value: 1 },
+    ]);
+    expect(counters.step_runs_total).toEqual([
+      { labels: { intent_name: "answer", step_id: "draft", outcome: "failure" }, value: 1 },
+      { labels: { intent_name: "answer", step_id: "canned", outcome: "success" }, value: 1 },
+    ]);
+    expect(counters.step_retries_total).toEqual([
+      { labels: { intent_name: "answer", step_id: "draft" }, value: 1 },
+    ]);
+    expect(counters.step_timeouts_total).toEqual([
+      { labels: { intent_name: "answer", step_id: "draft" }, value: 1 },
+    ]);
+    expect(counters.step_fallbacks_total).toEqual([
+      { labels: { intent_name: "answer", step_id: "draft" }, value: 1 },
+    ]);
+
+    const [run] = histograms.intent_duration_seconds;
+    expect(run.count).toBe(1);
+    expect(run.sum).toBeGreaterThan(0);
+    expect(run.buckets.at(-1)).toEqual({ le: 60, count: 1 });
+  });
+
+  it("separates failed and cancelled runs", async () => {
+    const metrics = createMetricsSink();
+
+    const failing = defineIntent({
+      name: "answer",
+      steps: [
+        {
+          id: "draft",
+          run: async () => {
+            throw new Error("nope");
+          },
+        },
+      ],
+    });
+    const controller = new AbortController();
+    controller.abort();
+
+    await runIntent(failing, { input: {}, metadata: {}, telemetry: metrics });
+    await runIntent(
+      failing,
+      { input: {}, metadata: {}, telemetry: metrics },
+      { signal: controller.signal }
+    );
+
+    expect(metrics.snapshot().counters.intent_runs_total).toEqual([
+      { labels: { intent_name: "answer", outcome: "failure" }, value: 1 },
+      { labels: { intent_name: "answer", outcome: "cancelled" }, value: 1 },
+    ]);
+  });
+
+  it("renders the Prometheus text exposition format", () => {
+    const metrics = createMetricsSink({ prefix: "app_", buckets: [0.1, 1] });
+
+    metrics({
+      type: "step_finished",
+      intentName: 'say "hi"',
+      stepId: "draft",
+      timestamp: 0,
+      success: true,
+      durationMs: 250,
+    });
+    metrics({
+      type: "step_finished",
+      intentName: 'say "hi"',
+      stepId: "draft",
+      timestamp: 0,
+      success: true,
+      durationMs: 50,
+    });
+
+    expect(metrics.render()).toBe(
+      [
+        "# HELP app_step_runs_total Step executions (retries and fallbacks included), by outcome.",
+        "# TYPE app_step_runs_total counter",
+        'app_step_runs_total{intent_name="say \\"hi\\"",step_id="draft",outcome="success"} 2',
+        "# HELP app_step_duration_seconds Step duration (all attempts), by outcome.",
+        "# TYPE app_step_duration_seconds histogram",
+        'app_step_duration_seconds_bucket{intent_name="say \\"hi\\"",step_id="draft",outcome="success",le="0.1"} 1',
+        'app_step_duration_seconds_bucket{intent_name="say \\"hi\\"",step_id="draft",outcome="success",le="1"} 2',
+        'app_step_duration_seconds_bucket{intent_name="say \\"hi\\"",step_id="draft",outcome="success",le="+Inf"} 2',
+        'app_step_duration_seconds_sum{intent_name="say \\"hi\\"",step_id="draft",outcome="success"} 0.3',
+        'app_step_duration_seconds_count{intent_name="say \\"hi\\"",step_id="draft",outcome="success"} 2',
+        "",
+      ].join("\n")
+    );
+
+    metrics.reset();
+    expect(metrics.render()).toBe("");
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * otel.spec.ts
+ * -------------
+ * Tests for the OTLP span exporter in otel.ts.
+ *
+ * Spans are posted to a throwaway node:http server standing in for an
+ * OpenTelemetry collector, so the tests see exactly what goes over the wire.
+ */
+
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { defineIntent } from "../../src/core/intent";
+import { runIntent } from "../../src/core/engine";
+import { createOtlpSpanExporter } from "../../src/core/otel";
+
+interface ReceivedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: { key: string; value: Record<string, unknown> }[];
+  events: { name: string }[];
+  status: { code: number; message?: string };
+}
+
+let server: Server;
+let endpoint: string;
+let requests: { headers: Record<string, unknown>; body: any }[];
+let statusCode: number;
+
+beforeEach(async () => {
+  requests = [];
+  statusCode = 200;
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body: JSON.parse(body) });
+      res.statusCode = statusCode;
+      res.end("{}");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/traces`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const received = (): ReceivedSpan[] =>
+  requests.flatMap((r) =>
+    r.body.resourceSpans.flatMap((rs: any) =>
+      rs.scopeSpans.flatMap((ss: any) => ss.spans)
+    )
+  );
+
+const attribute = (span: ReceivedSpan, key: string) =>
+  span.attributes.find((a) => a.key === key)?.value;
+
+describe("createOtlpSpanExporter", () => {
+  it("exports intent → step → attempt spans for a run", async () => {
+    const exporter = createOtlpSpanExporter({
+      endpoint,
+      serviceName: "support-bot",
+      headers: { "x-api-key": "secret" },
+    });
+    let calls = 0;
+
+    const intent = defineIntent({
+      name: "answer",
+      steps: [
+        {
+          id: "draft",
+          retry: { maxAttemps: 2, initialDelayMs: 0 },
+          run: async () => {
+            calls++;
+            if (calls === 1) throw new Error("flaky");
+            return "ok";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: {}, metadata: {}, telemetry: exporter });
+    await exporter.shutdown();
+
+    expect(result.success).toBe(true);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers["x-api-key"]).toBe("secret");
+    expect(requests[0].body.resourceSpans[0].resource.attributes).toContainEqual({
+      key: "service.name",
+      value: { stringValue: "support-bot" },
+    });
+
+    const spans = received();
+    const intentSpan = spans.find((s) => s.name === "intent answer")!;
+    const stepSpan = spans.find((s) => s.name === "step draft")!;
+    const attempts = spans.filter((s) => s.name.startsWith("attempt "));
+
+    expect(intentSpan.parentSpanId).toBeUndefined();
+    expect(attribute(intentSpan, "run.id")).toEqual({ stringValue: result.runId });
+    expect(stepSpan.parentSpanId).toBe(intentSpan.spanId);
+    expect(attribute(stepSpan, "step.attempts")).toEqual({ intValue: "2" });
+    expect(attempts.map((s) => s.name)).toEqual(["attempt 1", "attempt 2"]);
+    expect(attempts.every((s) => s.parentSpanId === stepSpan.spanId)).toBe(true);
+    expect(new Set(spans.map((s) => s.traceId)).size).toBe(1);
+
+    // the failed attempt is an error span; the run itself succeeded
+    expect(attempts[0].status.code).toBe(2);
+    expect(attempts[0].events.map((e) => e.name)).toContain("exception");
+    expect(attempts[1].status.code).toBe(1);
+    expect(intentSpan.status.code).toBe(1);
+    expect(BigInt(intentSpan.endTimeUnixNano)).toBeGreaterThanOrEqual(
+      BigInt(intentSpan.startTimeUnixNano)
+    );
+  });
+
+  it("marks failed steps and intents as errors and records fallbacks as span events", async () => {
+    const exporter = createOtlpSpanExporter({ endpoint });
+
+    const intent = defineIntent({
+      name: "answer",
+      steps: [
+        {
+          id: "primary",
+          fallbackTo: "backup",
+          run: async () => {
+            throw new Error("primary down");
+          },
+        },
+        {
+          id: "backup",
+          run: async () => {
+            throw new Error("backup down");
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: {}, metadata: {}, telemetry: exporter });
+    await exporter.flush();
+
+    expect(result.success).toBe(false);
+    const spans = received();
+    const intentSpan = spans.find((s) => s.name === "intent answer")!;
+    const primary = spans.find((s) => s.name === "step primary")!;
+
+    expect(intentSpan.status.code).toBe(2);
+    expect(intentSpan.status.message).toContain("backup down");
+    expect(primary.status.code).toBe(2);
+    expect(intentSpan.events.map((e) => e.name)).toContain("fallback_triggered");
+  });
+
+  it("continues the caller's trace from RunOptions.traceparent", async () => {
+    const exporter = createOtlpSpanExporter({ endpoint });
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const parentSpanId = "00f067aa0ba902b7";
+
+    const intent = defineIntent({
+      name: "answer",
+      steps: [{ id: "draft", run: async () => "ok" }],
+    });
+
+    await runIntent(
+      intent,
+      { input: {}, metadata: {}, telemetry: exporter },
+      { traceparent: `00-${traceId}-${parentSpanId}-01` }
+    );
+    await exporter.flush();
+
+    const spans = received();
+    const intentSpan = spans.find((s) => s.name === "intent answer")!;
+
+    expect(spans.every((s) => s.traceId === traceId)).toBe(true);
+    expect(intentSpan.parentSpanId).toBe(parentSpanId);
+  });
+
+  it("ignores a malformed traceparent and starts a new trace", async () => {
+    const exporter = createOtlpSpanExporter({ endpoint });
+
+    const intent = defineIntent({
+      name: "answer",
+      steps: [{ id: "draft", run: async () => "ok" }],
+    });
+
+    await runIntent(
+      intent,
+      { input: {}, metadata: {}, telemetry: exporter },
+      { traceparent: "00-00000000000000000000000000000000-00f067aa0ba902b7-01" }
+    );
+    await exporter.flush();
+
+    const intentSpan = received().find((s) => s.name === "intent answer")!;
+    expect(intentSpan.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(intentSpan.traceId).not.toMatch(/^0+$/);
+    expect(intentSpan.parentSpanId).toBeUndefined();
+  });
+
+  it("sends a batch as soon as maxBatchSize spans have finished", async () => {
+    const exporter = createOtlpSpanExporter({ endpoint, maxBatchSize: 2 });
+
+    const intent = defineIntent({
+      name: "answer",
+      steps: [{ id: "draft", run: async () => "ok" }],
+    });
+
+    // intent + step + attempt = 3 spans: one full batch, one left over
+    await runIntent(intent, { input: {}, metadata: {}, telemetry: exporter });
+    await exporter.flush();
+
+    expect(requests.map((r) => r.body.resourceSpans[0].scopeSpans[0].spans.length)).toEqual([2, 1]);
+  });
+
+  it("reports failed exports to onError instead of throwing", async () => {
+    statusCode = 503;
+    const errors: unknown[] = [];
+    const exporter = createOtlpSpanExporter({
+      endpoint,
+      onError: (error) => errors.push(error),
+    });
+
+    const intent = defineIntent({
+      name: "answer",
+      steps: [{ id: "draft", run: async () => "ok" }],
+    });
+
+    const result = await runIntent(intent, { input: {}, metadata: {}, telemetry: exporter });
+    await exporter.shutdown();
+
+    expect(result.success).toBe(true);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ name: "ProviderError", status: 503 });
+  });
+
+  it("keeps exporting after an onError that throws", async () => {
+    statusCode = 503;
+    const exporter = createOtlpSpanExporter({
+      endpoint,
+      onError: (error) => {
+        throw error;
+      },
+    });
+
+    const intent = defineIntent({
+      name: "answer",
+      steps: [{ id: "draft", run: async () => "ok" }],
+    });
+
+    await runIntent(intent, { input: {}, metadata: {}, telemetry: exporter });
+    await expect(exporter.flush()).resolves.toBeUndefined();
+
+    statusCode = 200;
+    await runIntent(intent, { input: {}, metadata: {}, telemetry: exporter });
+    await exporter.shutdown();
+
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -143,9 +143,324 @@
  * This file guarantees that your reliability system is **visible, debuggable, and traceable**.
  */
 import { describe, it, expect } from "vitest";
+import { defineIntent } from "../../src/core/intent";
+import { runIntent } from "../../src/core/engine";
+import {
+  batchingSink,
+  combineSinks,
+  filterSink,
+  sampleSink,
+} from "../../src/core/telemetry";
+import {
+  ProviderError,
+  StepExecutionError,
+  deserializeError,
+  serializeError,
+} from "../../src/utils/error";
+import type { TelemetryEvent } from "../../src/types";
 
 describe("Telemetry (placeholder)", () => {
   it("is a placeholder test that always passes", () => {
     expect(true).toBe(true);
   });
 });
+
+describe("Telemetry – error serialization", () => {
+  it("emits serialized errors that survive JSON.stringify", async () => {
+    const lines: string[] = [];
+
+    const intent = defineIntent<void, string>({
+      name: "serialized-errors",
+      steps: [
+        {
+          id: "call-llm",
+          async run() {
+            throw new ProviderError("Too many requests", "openai", "rate_limit", {
+              status: 429,
+              code: "rate_limit_exceeded",
+            });
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, {
+      input: undefined,
+      metadata: {},
+      telemetry: (event) => lines.push(JSON.stringify(event)),
+    });
+
+    const finished = lines
+      .map((line) => JSON.parse(line) as TelemetryEvent)
+      .find((e) => e.type === "step_finished");
+
+    expect(finished!.error).toMatchObject({
+      name: "StepExecutionError",
+      category: "rate_limit",
+      stepId: "call-llm",
+      cause: {
+        name: "ProviderError",
+        message: "Too many requests",
+        code: "rate_limit_exceeded",
+        status: 429,
+      },
+    });
+    expect(typeof finished!.error!.stack).toBe("string");
+
+    // the result keeps the real error object
+    expect(result.error).toBeInstanceOf(StepExecutionError);
+    expect((result.error as StepExecutionError).cause).toBeInstanceOf(ProviderError);
+  });
+
+  it("round-trips errors through serializeError / deserializeError", () => {
+    const original = new ProviderError("Bad gateway", "openai", "provider", {
+      status: 502,
+      cause: new Error("socket hang up"),
+    });
+
+    const restored = deserializeError(
+      JSON.parse(JSON.stringify(serializeError(original))),
+    );
+
+    expect(restored.name).toBe("ProviderError");
+    expect(restored.message).toBe("Bad gateway");
+    expect(restored).toMatchObject({ category: "provider", status: 502 });
+    expect(restored.stack).toBe(original.stack);
+    expect((restored as Error & { cause: Error }).cause.message).toBe("socket hang up");
+  });
+
+  it("serializes values that are not Error instances", () => {
+    expect(serializeError("plain string")).toEqual({
+      name: "NonError",
+      message: "plain string",
+    });
+    expect(serializeError({ reason: "nope" })).toEqual({
+      name: "NonError",
+      message: '{"reason":"nope"}',
+    });
+  });
+});
+
+describe("Telemetry – run ids, durations and attempts", () => {
+  it("stamps every event, including policy events, with the run's ids", async () => {
+    const received: TelemetryEvent[] = [];
+    let calls = 0;
+
+    const intent = defineIntent<void, string>({
+      name: "correlated",
+      steps: [
+        {
+          id: "flaky",
+          retry: { maxAttemps: 2 },
+          timeoutMs: 1000,
+          async run() {
+            calls++;
+            if (calls === 1) throw new Error("first try fails");
+            return "ok";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(
+      intent,
+      {
+        input: undefined,
+        metadata: {},
+        telemetry: (event) => received.push(event),
+      },
+      { runId: "run-42", parentRunId: "run-41", correlationId: "req-abc" },
+    );
+
+    // retry and timeout events are part of the trace too
+    expect(result.trace.map((e) => e.type)).toContain("retry_attempt_failed");
+    expect(result.trace.map((e) => e.type)).toContain("timeout_started");
+    expect(received).toEqual(result.trace);
+
+    for (const event of result.trace) {
+      expect(event).toMatchObject({
+        runId: "run-42",
+        parentRunId: "run-41",
+        correlationId: "req-abc",
+      });
+    }
+  });
+
+  it("reports durationMs and attempts on step_finished and intent_finished", async () => {
+    let calls = 0;
+
+    const intent = defineIntent<void, string>({
+      name: "timed",
+      steps: [
+        {
+          id: "slow",
+          async run() {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            return "done";
+          },
+        },
+        {
+          id: "flaky",
+          retry: { maxAttemps: 3 },
+          async run() {
+            calls++;
+            if (calls < 3) throw new Error("not yet");
+            return "ok";
+          },
+        },
+      ],
+    });
+
+    const result = await runIntent(intent, { input: undefined, metadata: {} });
+
+    const finished = result.trace.filter((e) => e.type === "step_finished");
+    expect(finished.map((e) => [e.stepId, e.attempts])).toEqual([
+      ["slow", 1],
+      ["flaky", 3],
+    ]);
+    expect(finished[0].durationMs).toBeGreaterThanOrEqual(15);
+
+    const intentFinished = result.trace.find((e) => e.type === "intent_finished");
+    expect(intentFinished!.attempts).toBe(4);
+    expect(intentFinished!.durationMs).toBeGreaterThanOrEqual(finished[0].durationMs!);
+    expect(typeof result.runId).toBe("string");
+    expect(intentFinished!.runId).toBe(result.runId);
+  });
+});
+
+describe("Telemetry – composable sinks", () => {
+  const intent = defineIntent({
+    name: "answer",
+    steps: [{ id: "draft", run: async () => "ok" }],
+  });
+  const event = (overrides: Partial<TelemetryEvent> = {}): TelemetryEvent => ({
+    type: "step_started",
+    intentName: "answer",
+    timestamp: 0,
+    ...overrides,
+  });
+
+  it("keeps the run going when a sink throws or rejects", async () => {
+    const seen: TelemetryEvent[] = [];
+
+    const result = await runIntent(intent, {
+      input: {},
+      metadata: {},
+      telemetry: combineSinks(
+        () => {
+          throw new Error("sink broke");
+        },
+        (async () => {
+          throw new Error("async sink broke");
+        }) as unknown as (e: TelemetryEvent) => void,
+        (e) => seen.push(e)
+      ),
+    });
+
+    expect(result.success).toBe(true);
+    expect(seen.map((e) => e.type)).toEqual(result.trace.map((e) => e.type));
+  });
+
+  it("filters events with a predicate", () => {
+    const seen: TelemetryEvent[] = [];
+    const sink = filterSink((e) => seen.push(e), (e) => e.type === "step_finished");
+
+    sink(event());
+    sink(event({ type: "step_finished" }));
+
+    expect(seen.map((e) => e.type)).toEqual(["step_finished"]);
+  });
+
+  it("samples whole runs and can keep failures of unsampled runs", () => {
+    const seen: TelemetryEvent[] = [];
+    const rolls = [0.05, 0.9];
+    const sink = sampleSink((e) => seen.push(e), 0.1, {
+      keepErrors: true,
+      random: () => rolls.shift()!,
+    });
+
+    // run "a" is sampled, run "b" is not
+    sink(event({ runId: "a" }));
+    sink(event({ runId: "b" }));
+    sink(event({ runId: "a", type: "step_finished", success: true }));
+    sink(event({ runId: "b", type: "step_finished", success: true }));
+    sink(event({ runId: "b", type: "intent_finished", success: false }));
+
+    expect(seen.map((e) => [e.runId, e.type])).toEqual([
+      ["a", "step_started"],
+      ["a", "step_finished"],
+      ["b", "intent_finished"],
+    ]);
+  });
+
+  it("batches events, exports them when a run finishes and counts drops", async () => {
+    const batches: TelemetryEvent[][] = [];
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+
+    const sink = batchingSink(
+      async (events) => {
+        batches.push(events);
+        await blocked;
+      },
+      { maxBatchSize: 2, maxBuffered: 3, flushIntervalMs: 60_000 }
+    );
+
+    sink(event({ stepId: "1" }));
+    sink(event({ stepId: "2" })); // full batch → export starts and hangs
+    sink(event({ stepId: "3" }));
+    sink(event({ stepId: "4" })); // 3 events pending → dropped
+
+    expect(sink.stats()).toEqual({ buffered: 3, exported: 0, dropped: 1, failed: 0 });
+
+    release();
+    await sink.flush();
+    sink(event({ type: "intent_finished" }));
+    await sink.flush();
+
+    expect(batches.map((b) => b.map((e) => e.stepId ?? e.type))).toEqual([
+      ["1", "2"],
+      ["3"],
+      ["intent_finished"],
+    ]);
+    expect(sink.stats()).toEqual({ buffered: 0, exported: 4, dropped: 1, failed: 0 });
+  });
+
+  it("counts events of failed exports and reports the error", async () => {
+    const errors: unknown[] = [];
+    const sink = batchingSink(
+      () => {
+        throw new Error("collector down");
+      },
+      { onError: (error) => errors.push(error) }
+    );
+
+    sink(event({ type: "intent_finished" }));
+    await sink.flush();
+
+    expect(errors).toHaveLength(1);
+    expect(sink.stats()).toMatchObject({ failed: 1, exported: 0 });
+  });
+
+  it("keeps exporting after an onError that throws", async () => {
+    let calls = 0;
+    const sink = batchingSink(
+      () => {
+        calls++;
+        if (calls === 1) throw new Error("collector down");
+      },
+      {
+        onError: (error) => {
+          throw error;
+        },
+      }
+    );
+
+    sink(event({ type: "intent_finished" }));
+    await expect(sink.flush()).resolves.toBeUndefined();
+    sink(event({ type: "intent_finished" }));
+    await sink.flush();
+
+    expect(sink.stats()).toEqual({ buffered: 0, exported: 1, dropped: 0, failed: 1 });
+  });
+});
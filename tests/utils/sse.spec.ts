@@ -0,0 +1,52 @@
+/**
+ * sse.spec.ts
+ * ------------
+ * Tests for the server-sent event reader in utils/sse.ts.
+ */
+
+import { describe, expect, it } from "vitest";
+import { readServerSentEvents } from "../../src/utils/sse";
+
+// A body that arrives in exactly these pieces
+function bodyOf(pieces: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const piece of pieces) controller.enqueue(encoder.encode(piece));
+      controller.close();
+    },
+  });
+}
+
+async function readAll(pieces: string[]) {
+  const events = [];
+  for await (const event of readServerSentEvents(bodyOf(pieces))) events.push(event);
+  return events;
+}
+
+describe("readServerSentEvents", () => {
+  it("parses fields, multi-line data and comments", async () => {
+    const events = await readAll([
+      ": keep-alive\n\n",
+      "event: delta\nid: 7\ndata: {\"a\":\ndata:1}\n\n",
+      "data: plain\n\n",
+    ]);
+
+    expect(events).toEqual([
+      { event: "delta", id: "7", data: '{"a":\n1}' },
+      { event: "message", data: "plain" },
+    ]);
+  });
+
+  it("handles line endings split across chunks", async () => {
+    const events = await readAll(["data: one\r", "\n\r", "\ndata: tw", "o\r\r"]);
+
+    expect(events.map((e) => e.data)).toEqual(["one", "two"]);
+  });
+
+  it("drops an event cut off by the end of the stream", async () => {
+    const events = await readAll(["data: complete\n\n", "data: partial\n"]);
+
+    expect(events.map((e) => e.data)).toEqual(["complete"]);
+  });
+});